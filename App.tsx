@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   LayoutDashboard, 
   List, 
@@ -6,135 +6,518 @@ import {
   BrainCircuit, 
   ArrowRight,
   TrendingUp,
-  Wallet
+  TrendingDown,
+  Wallet,
+  Settings,
+  Plus,
+  Undo2,
+  X,
+  Eye,
+  EyeOff,
+  FlaskConical,
+  Target
 } from './components/IconComponents';
 import { TrendChart, AllocationChart } from './components/Charts';
-import { Asset, HistoryPoint, AnalysisResponse, ViewState, AssetCategory } from './types';
-import { parseHoldingsScreenshot, generateWealthAnalysis, fileToGenerativePart } from './services/geminiService';
-
-// Mock initial history for the demo
-const MOCK_HISTORY: HistoryPoint[] = Array.from({ length: 7 }, (_, i) => {
-  const d = new Date();
-  d.setDate(d.getDate() - (6 - i));
-  return {
-    date: d.toISOString().split('T')[0],
-    totalNetWorth: 100000 + Math.random() * 5000 + (i * 1000),
-    totalReturnRate: 2 + Math.random() * 1.5
-  };
-});
-
-// Category Display Map
-const CategoryDisplayMap: Record<string, string> = {
-  [AssetCategory.STOCK]: '股票',
-  [AssetCategory.FUND]: '基金',
-  [AssetCategory.BOND]: '债券',
-  [AssetCategory.CRYPTO]: '数字货币',
-  [AssetCategory.CASH]: '现金',
-  [AssetCategory.OTHER]: '其他'
-};
+import { FxSettingsPanel } from './components/FxSettingsPanel';
+import { ImportReview } from './components/ImportReview';
+import { AliasSettingsPanel } from './components/AliasSettingsPanel';
+import { SnapshotEditor } from './components/SnapshotEditor';
+import { PortfolioSettingsPanel } from './components/PortfolioSettingsPanel';
+import { HoldingsTable } from './components/HoldingsTable';
+import { AssetForm } from './components/AssetForm';
+import { UploadQueue } from './components/UploadQueue';
+import { CropDialog } from './components/CropDialog';
+import { PreprocessSettingsPanel } from './components/PreprocessSettingsPanel';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { TransactionLedger } from './components/TransactionLedger';
+import { TargetAllocationPanel } from './components/TargetAllocationPanel';
+import { AnalysisReport } from './components/AnalysisReport';
+import { AnalysisHistoryPanel } from './components/AnalysisHistoryPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { BackupPanel } from './components/BackupPanel';
+import { RiskPanel } from './components/RiskPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { GoalPlanner } from './components/GoalPlanner';
+import { PriceFeedPanel } from './components/PriceFeedPanel';
+import { LockScreen } from './components/LockScreen';
+import { SecuritySettingsPanel } from './components/SecuritySettingsPanel';
+import { AlertRulesPanel } from './components/AlertRulesPanel';
+import { NotificationCenter } from './components/NotificationCenter';
+import { Asset, AssetDraft, HistoryPoint, AnalysisRecord, ViewState, ViewPage, FxSettings, AssetAlias, Portfolio, PendingImport, UndoEntry, UploadJob, CropRect, PreprocessSettings, ProviderConfig, ExtractedHolding, ValidationWarning, Transaction, ReturnPeriod, AllocationTarget, AssetCategory, SuggestionStatus, ChatThread, BackupData, Screenshot, RiskSettings, Scenario, Goal, PlanningSettings, PriceFeedSettings, PriceQuote, AlertRule, AlertEvent, AlertTrigger, ALL_PORTFOLIOS_ID, DEFAULT_PORTFOLIO_ID } from './types';
+import { CategoryDisplayMap } from './constants';
+import { DEFAULT_PROVIDER_CONFIG, createProvider, extractHoldings, analyzePortfolio } from './services/aiProvider';
+import { DEFAULT_PREPROCESS_SETTINGS, archiveScreenshot, isImageFile, preprocessScreenshot, tileRegionToScreenshot } from './services/imageService';
+import { DEFAULT_FX_SETTINGS, currencySymbol, findMissingRates } from './services/fxService';
+import { summarizePnl } from './services/pnlService';
+import { buildImportRows, applyImportRows, learnAliases, dedupeExtractedRows, releaseMissingTargets } from './services/importService';
+import { buildSnapshot, upsertSnapshot, removeSnapshot, rebaseSnapshot, selectPortfolioHistory, toDateKey } from './services/snapshotService';
+import { DEFAULT_PORTFOLIO, filterByPortfolio, portfolioName } from './services/portfolioService';
+import { MAX_UNDO_STEPS, createAsset, updateAsset, deleteAssets } from './services/assetService';
+import { createTransaction, filterTransactions, inferTransactions } from './services/transactionService';
+import { computeDrift, validateTargets } from './services/rebalanceService';
+import { createAnalysisRecord, selectReports, updateRecordSuggestion } from './services/analysisService';
+import { DEFAULT_AUTO_LOCK_MINUTES, describeStorageError, disableEncryption, enableEncryption, getEncryptionStatus, loadPreference, loadState, pruneScreenshots, savePreference, saveState, screenshotRepository, setAutoLockMinutes, unlockStorage } from './services/storageService';
+import { maskAmount } from './services/privacyService';
+import { appendAlerts, evaluateAlertRules, notifyBrowser } from './services/alertService';
+import { DEFAULT_RISK_SETTINGS, computeRiskMetrics } from './services/riskService';
+import { selectScenarios } from './services/scenarioService';
+import { DEFAULT_PLANNING_SETTINGS, selectGoals } from './services/planningService';
+import { DEFAULT_PRICE_FEED_SETTINGS, applyQuotes } from './services/priceService';
+import { buildChatSystemPrompt } from './services/promptService';
+import { appendToMessage, chatContext, createChatMessage, createChatThread, markMessageFailed, selectThreads, upsertThread } from './services/chatService';
+import { RETURN_PERIODS, ReturnPeriodLabelMap, computePerformance, periodStartDate, selectValueSeries } from './services/performanceService';
 
 const App: React.FC = () => {
   // --- State ---
-  const [view, setView] = useState<ViewState>('dashboard');
+  const [view, setView] = useState<ViewState>({ page: 'dashboard', portfolioId: ALL_PORTFOLIOS_ID });
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([DEFAULT_PORTFOLIO]);
   const [assets, setAssets] = useState<Asset[]>([]);
-  const [history, setHistory] = useState<HistoryPoint[]>(MOCK_HISTORY);
-  const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
+  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [analysisHistory, setAnalysisHistory] = useState<AnalysisRecord[]>([]);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(null); // Null shows the latest report
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeChatId, setActiveChatId] = useState<string | null>(null);
+  const [isChatting, setIsChatting] = useState(false);
+  const [fx, setFx] = useState<FxSettings>(DEFAULT_FX_SETTINGS);
+  const [aliases, setAliases] = useState<AssetAlias[]>([]);
+  const [preprocess, setPreprocess] = useState<PreprocessSettings>(DEFAULT_PREPROCESS_SETTINGS);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(DEFAULT_PROVIDER_CONFIG);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [targets, setTargets] = useState<Record<string, AllocationTarget[]>>({}); // Keyed by portfolio id or ALL_PORTFOLIOS_ID
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(DEFAULT_RISK_SETTINGS);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [planning, setPlanning] = useState<PlanningSettings>(DEFAULT_PLANNING_SETTINGS);
+  const [priceFeed, setPriceFeed] = useState<PriceFeedSettings>(DEFAULT_PRICE_FEED_SETTINGS);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]); // Newest first
   
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [showAssetForm, setShowAssetForm] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadJobs, setUploadJobs] = useState<UploadJob[]>([]);
+  const [pendingCrop, setPendingCrop] = useState<File[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [chartType, setChartType] = useState<'netWorth' | 'return'>('netWorth');
+  const [chartCategory, setChartCategory] = useState<string>('');
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriod>('ALL');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageWarnings, setStorageWarnings] = useState<string[]>([]);
+  const [isLocked, setIsLocked] = useState<boolean | null>(null); // Null until the encryption status is known
+  const [encrypted, setEncrypted] = useState(false);
+  const [autoLockMinutes, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [privacy, setPrivacy] = useState(false);
+  const [browserNotifications, setBrowserNotifications] = useState(false);
+  const skipNextSnapshot = useRef(true);
+  const pendingSave = useRef<Promise<void>>(Promise.resolve()); // Saves are queued, so this settles after every earlier one
+
+  // Load saved state; old localStorage data is moved into IndexedDB on first run
+  const loadSavedState = () => {
+    loadState()
+      .then(({ state, warnings }) => {
+        setAssets(state.assets);
+        setHistory(state.history);
+        setAnalysisHistory(state.analyses);
+        if (state.fx) setFx(state.fx);
+        if (state.aliases) setAliases(state.aliases);
+        if (state.portfolios) setPortfolios(state.portfolios);
+        if (state.preprocess) setPreprocess({ ...DEFAULT_PREPROCESS_SETTINGS, ...state.preprocess });
+        if (state.provider) setProviderConfig({ ...DEFAULT_PROVIDER_CONFIG, ...state.provider });
+        if (state.transactions) setTransactions(state.transactions);
+        if (state.targets) setTargets(state.targets);
+        if (state.chats) setChatThreads(state.chats);
+        if (state.risk) setRiskSettings({ ...DEFAULT_RISK_SETTINGS, ...state.risk });
+        if (state.scenarios) setScenarios(state.scenarios);
+        if (state.goals) setGoals(state.goals);
+        if (state.alertRules) setAlertRules(state.alertRules);
+        if (state.alerts) setAlerts(state.alerts);
+        if (state.priceFeed) setPriceFeed({ ...DEFAULT_PRICE_FEED_SETTINGS, ...state.priceFeed });
+        if (state.planning) setPlanning({ ...DEFAULT_PLANNING_SETTINGS, ...state.planning, assumptions: { ...DEFAULT_PLANNING_SETTINGS.assumptions, ...state.planning.assumptions } });
+        setStorageWarnings(warnings);
+      })
+      .catch(error => {
+        console.error(error);
+        setStorageWarnings([`无法打开本地数据库，本次修改不会被保存：${error instanceof Error ? error.message : error}`]);
+      })
+      .finally(() => setIsLoaded(true));
+  };
 
   // --- Effects ---
   useEffect(() => {
-    // Load from local storage if available
-    const savedAssets = localStorage.getItem('aurum_assets');
-    const savedHistory = localStorage.getItem('aurum_history');
-    const savedAnalysis = localStorage.getItem('aurum_analysis');
-    
-    if (savedAssets) setAssets(JSON.parse(savedAssets));
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
-    if (savedAnalysis) setAnalysis(JSON.parse(savedAnalysis));
+    // Encrypted data waits behind the lock screen
+    loadPreference('privacyMode').then(setPrivacy).catch(console.error);
+    loadPreference('browserNotifications').then(setBrowserNotifications).catch(console.error);
+    getEncryptionStatus()
+      .then(status => {
+        setEncrypted(status.enabled);
+        setAutoLock(status.autoLockMinutes);
+        setIsLocked(status.enabled);
+        if (!status.enabled) loadSavedState();
+      })
+      .catch(() => {
+        setIsLocked(false);
+        loadSavedState();
+      });
   }, []);
 
   useEffect(() => {
-    // Persist
-    localStorage.setItem('aurum_assets', JSON.stringify(assets));
-    localStorage.setItem('aurum_history', JSON.stringify(history));
-    if (analysis) localStorage.setItem('aurum_analysis', JSON.stringify(analysis));
-  }, [assets, history, analysis]);
+    // Persist, but never before the saved state has been loaded
+    if (!isLoaded) return;
+    pendingSave.current = saveState(appData).catch(error => {
+      console.error(error);
+      setStorageWarnings([describeStorageError(error)]);
+    });
+  }, [assets, history, analysisHistory, fx, aliases, portfolios, preprocess, providerConfig, transactions, targets, chatThreads, riskSettings, scenarios, goals, planning, priceFeed, alertRules, alerts, isLoaded]);
 
-  // --- Computed ---
-  const totalNetWorth = assets.reduce((sum, a) => sum + a.amount, 0);
-  const totalReturn = assets.reduce((sum, a) => sum + (a.amount * (a.returnRate / 100)), 0);
-  const totalReturnRate = totalNetWorth > 0 ? (totalReturn / totalNetWorth) * 100 : 0;
+  useEffect(() => {
+    // Snapshot engine: any change to holdings or FX rates rewrites today's snapshot from the post-change state
+    if (!isLoaded) return;
+    // The first run reflects what was loaded from storage, not a change
+    if (skipNextSnapshot.current) {
+      skipNextSnapshot.current = false;
+      return;
+    }
+    setHistory(prev => upsertSnapshot(prev, buildSnapshot(toDateKey(), assets, fx)));
+  }, [assets, fx, isLoaded]);
+
+  useEffect(() => {
+    // Auto-lock after a stretch without input
+    if (!encrypted || isLocked || autoLockMinutes <= 0) return;
+    let timer = window.setTimeout(handleLock, autoLockMinutes * 60000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, autoLockMinutes * 60000);
+    };
+    const events = ['mousemove', 'keydown', 'click', 'touchstart', 'wheel'];
+    events.forEach(name => window.addEventListener(name, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(name => window.removeEventListener(name, reset));
+    };
+  }, [encrypted, isLocked, autoLockMinutes]);
+
+  useEffect(() => {
+    // Paste screenshots from the clipboard anywhere on the page
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files || []);
+      if (files.length > 0) processFilesRef.current(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const provider = useMemo(() => createProvider(providerConfig), [providerConfig]);
+
+  // --- Computed (all aggregates in the base currency, for the selected portfolio) ---
+  const visibleAssets = filterByPortfolio(assets, view.portfolioId);
+  const visibleHistory = selectPortfolioHistory(history, view.portfolioId);
+  const baseSymbol = currencySymbol(fx.baseCurrency);
+  const missingCurrencies = findMissingRates(assets, fx);
+  // Per-asset values live only in the consolidated history, so today's P&L reads from it directly
+  const pnl = summarizePnl(visibleAssets, history, fx);
+  const visibleTransactions = filterTransactions(transactions, view.portfolioId);
+  const periodStart = periodStartDate(returnPeriod);
+  const periodHistory = periodStart ? visibleHistory.filter(point => point.date >= periodStart) : visibleHistory;
+  const performance = computePerformance(selectValueSeries(history, view.portfolioId), visibleTransactions, fx, periodStart);
+  const riskMetrics = computeRiskMetrics(performance.series, visibleAssets, fx, riskSettings);
+  const visibleTargets = targets[view.portfolioId] || [];
+  // Half-edited or stale targets would raise false alerts
+  const driftAlerts = validateTargets(visibleTargets, visibleAssets) ? [] : computeDrift(visibleAssets, visibleTargets, fx).filter(d => d.breached);
+  const visibleReports = selectReports(analysisHistory, view.portfolioId);
+  const currentReport = visibleReports.find(r => r.id === selectedReportId) || visibleReports[0];
+  const analysis = currentReport?.analysis;
+  const visibleThreads = selectThreads(chatThreads, view.portfolioId);
+  const visibleScenarios = selectScenarios(scenarios, view.portfolioId);
+  const visibleGoals = selectGoals(goals, view.portfolioId);
+  const appData: BackupData = {
+    assets, history, analyses: analysisHistory, transactions, portfolios, aliases, targets, chats: chatThreads, fx, preprocess, provider: providerConfig, risk: riskSettings, scenarios, goals, planning, priceFeed, alertRules, alerts
+  };
+  const formatSignedAmount = (value: number) =>
+    `${value < 0 ? '-' : '+'}${baseSymbol}${maskAmount(Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}`;
 
   // --- Handlers ---
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const setPage = (page: ViewPage) => setView(prev => ({ ...prev, page }));
+
+  const handleUnlock = async (passphrase: string) => {
+    const ok = await unlockStorage(passphrase);
+    if (ok) {
+      setIsLocked(false);
+      loadSavedState();
+    }
+    return ok;
+  };
+
+  // The key only lives in memory, so reloading is what locks. Let the last save finish first.
+  const handleLock = () => {
+    pendingSave.current.finally(() => window.location.reload());
+  };
 
+  const handleEnableEncryption = async (passphrase: string) => {
+    await pendingSave.current;
+    await enableEncryption(passphrase, appData, autoLockMinutes);
+    setEncrypted(true);
+  };
+
+  const handleDisableEncryption = async (passphrase: string) => {
+    await pendingSave.current;
+    const ok = await disableEncryption(passphrase, appData);
+    if (ok) setEncrypted(false);
+    return ok;
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLock(minutes);
+    setAutoLockMinutes(minutes).catch(console.error);
+  };
+
+  const togglePrivacy = () => {
+    setPrivacy(!privacy);
+    savePreference('privacyMode', !privacy).catch(console.error);
+  };
+
+  // Permission is asked for when the user turns notifications on, never before
+  const handleBrowserNotificationsChange = async (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission !== 'granted') {
+      if (await Notification.requestPermission() !== 'granted') return;
+    }
+    setBrowserNotifications(enabled);
+    savePreference('browserNotifications', enabled).catch(console.error);
+  };
+
+  // Checks the alert rules against holdings that just changed. The snapshot
+  // engine only rewrites today's point after the render, so do the same here.
+  const runAlerts = (nextAssets: Asset[], nextHistory: HistoryPoint[], trigger: AlertTrigger) => {
+    if (alertRules.length === 0) return;
+    const withToday = upsertSnapshot(nextHistory, buildSnapshot(toDateKey(), nextAssets, fx));
+    const result = evaluateAlertRules(alertRules, nextAssets, withToday, fx, trigger);
+    setAlertRules(result.rules);
+    if (result.events.length === 0) return;
+    setAlerts(prev => appendAlerts(prev, result.events));
+    if (browserNotifications) notifyBrowser(result.events);
+  };
+
+  const processFiles = async (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length === 0 || isUploading || pendingImport || pendingCrop) return;
+    if (preprocess.reviewCrop) {
+      setPendingCrop(images);
+      return;
+    }
+    runExtraction(images, images.map(() => preprocess.defaultCrop));
+  };
+
+  const handleConfirmCrop = (crops: CropRect[]) => {
+    if (!pendingCrop) return;
+    const images = pendingCrop;
+    setPendingCrop(null);
+    runExtraction(images, crops);
+  };
+
+  const runExtraction = async (images: File[], crops: CropRect[]) => {
+    const jobs: UploadJob[] = images.map(f => ({ id: crypto.randomUUID(), fileName: f.name || '粘贴的图片', status: 'queued' }));
+    const updateJob = (id: string, patch: Partial<UploadJob>) =>
+      setUploadJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch } : j));
+    setUploadJobs(jobs);
     setIsUploading(true);
-    try {
-      const base64 = await fileToGenerativePart(file);
-      const extractedAssets = await parseHoldingsScreenshot(base64);
-      
-      // Merge logic: Update existing by name, add new
-      setAssets(prev => {
-        const newAssets = [...prev];
-        extractedAssets.forEach(extracted => {
-            if(!extracted.name) return;
-            const index = newAssets.findIndex(a => a.name === extracted.name);
-            if (index >= 0) {
-                // Update
-                newAssets[index] = { ...newAssets[index], ...extracted, lastUpdated: new Date().toISOString() } as Asset;
-            } else {
-                // Add new with ID
-                newAssets.push({ ...extracted, id: crypto.randomUUID(), lastUpdated: new Date().toISOString() } as Asset;
-            }
-        });
-        return newAssets;
-      });
 
-      // Update history for "Today"
-      setHistory(prev => {
-         const todayStr = new Date().toISOString().split('T')[0];
-         // Simple logic: if today exists, overwrite, else append
-         const existingTodayIndex = prev.findIndex(h => h.date.startsWith(todayStr));
-         const newPoint: HistoryPoint = {
-             date: todayStr,
-             totalNetWorth: totalNetWorth + (extractedAssets.reduce((s, a) => s + (a.amount || 0), 0)), // Approx for immediate UI feedback
-             totalReturnRate: totalReturnRate // This is lagging, but fine for demo
-         };
-
-         if (existingTodayIndex >= 0) {
-             const copy = [...prev];
-             copy[existingTodayIndex] = newPoint;
-             return copy;
-         } else {
-             return [...prev, newPoint];
-         }
+    const portfolioId = view.portfolioId === ALL_PORTFOLIOS_ID ? DEFAULT_PORTFOLIO_ID : view.portfolioId;
+
+    // Screenshots are processed one at a time; a failure only affects its own file
+    const batches: ExtractedHolding[][] = [];
+    const screenshots: Screenshot[] = [];
+    for (let i = 0; i < images.length; i++) {
+      const job = jobs[i];
+      updateJob(job.id, { status: 'processing' });
+      try {
+        // Long screenshots become several overlapping tiles; their rows are de-duplicated below
+        const tiles = await preprocessScreenshot(images[i], preprocess, crops[i]);
+        const screenshot = await archiveScreenshot(images[i], crops[i], portfolioId);
+        let rowCount = 0;
+        const warnings: ValidationWarning[] = [];
+        for (const tile of tiles) {
+          const result = await extractHoldings(provider, tile.image);
+          screenshot.rawOutput.push(result.raw);
+          // Every row remembers which screenshot, and where in it, it was read from
+          batches.push(result.holdings.map(h => ({
+            ...h,
+            source: { screenshotId: screenshot.id, region: h.region && tileRegionToScreenshot(h.region, tile) }
+          })));
+          warnings.push(...result.warnings);
+          rowCount += result.holdings.length;
+        }
+        screenshots.push(screenshot);
+        if (rowCount === 0) {
+          updateJob(job.id, { status: 'failed', error: '未识别到持仓，请确保图片清晰', warnings });
+          continue;
+        }
+        updateJob(job.id, { status: 'done', rowCount, tileCount: tiles.length, warnings });
+      } catch (error) {
+        console.error(error);
+        updateJob(job.id, { status: 'failed', error: '截图解析失败，请重试' });
+      }
+    }
+    setIsUploading(false);
+
+    const extractedAssets = dedupeExtractedRows(batches);
+    if (extractedAssets.length === 0) return;
+
+    // Stage rows for review instead of merging straight into assets
+    setPendingImport({
+      portfolioId,
+      extracted: extractedAssets,
+      rows: buildImportRows(extractedAssets, filterByPortfolio(assets, portfolioId), aliases),
+      screenshots
+    });
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    // Reset input
+    event.target.value = '';
+    processFiles(files);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    processFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // The paste listener is registered once, so it calls through a ref to see current state
+  const processFilesRef = useRef(processFiles);
+  processFilesRef.current = processFiles;
+
+  const handleImportPortfolioChange = (portfolioId: string) => {
+    if (!pendingImport) return;
+    // Matching is scoped to the target portfolio, so rows are rebuilt from the raw extraction
+    setPendingImport({
+      ...pendingImport,
+      portfolioId,
+      rows: buildImportRows(pendingImport.extracted, filterByPortfolio(assets, portfolioId), aliases)
+    });
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    const checked = releaseMissingTargets(pendingImport.rows, assets);
+    if (checked.released > 0) {
+      // Keep the review open with those rows flagged
+      setPendingImport({ ...pendingImport, rows: checked.rows });
+      return;
+    }
+    const nextAssets = applyImportRows(pendingImport.rows, assets, pendingImport.portfolioId);
+    const inferred = inferTransactions(assets, nextAssets, pendingImport.portfolioId, toDateKey(), transactions);
+    setAssets(nextAssets);
+    runAlerts(nextAssets, history, 'upload');
+    if (inferred.length > 0) setTransactions(prev => [...prev, ...inferred]);
+    setAliases(prev => learnAliases(pendingImport.rows, prev));
+    // Keep the screenshots as the record of where the new values came from,
+    // and let go of old ones nothing refers to any more
+    const inUse = new Set(nextAssets.flatMap(a => a.source ? [a.source.screenshotId] : []));
+    Promise.all(pendingImport.screenshots.map(screenshot =>
+      screenshotRepository.put({ ...screenshot, portfolioId: pendingImport.portfolioId })))
+      .then(() => pruneScreenshots(inUse))
+      .catch(error => {
+        console.error(error);
+        setStorageWarnings([describeStorageError(error)]);
       });
+    setPendingImport(null);
+  };
+
+  // Destructive edits keep the previous holdings so the last few can be undone
+  const pushUndo = (label: string) =>
+    setUndoStack(prev => [...prev, { label, assets }].slice(-MAX_UNDO_STEPS));
+
+  const handleUndo = () => {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return;
+    setAssets(last.assets);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  const handleAddAsset = (draft: AssetDraft, portfolioId: string) => {
+    setAssets(prev => [...prev, createAsset(draft, portfolioId)]);
+    setShowAssetForm(false);
+  };
 
-      alert("截图解析成功，您的持仓已更新。");
+  const handleUpdateAsset = (id: string, draft: AssetDraft) => {
+    const original = assets.find(a => a.id === id);
+    pushUndo(`编辑 ${original?.name || draft.name}`);
+    setAssets(prev => updateAsset(prev, id, draft));
+  };
+
+  const handleDeleteAssets = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const label = ids.length === 1 ? `删除 ${assets.find(a => a.id === ids[0])?.name || ''}` : `删除 ${ids.length} 项`;
+    pushUndo(label);
+    setAssets(prev => deleteAssets(prev, ids));
+  };
+
+  // Quotes apply to every portfolio; earlier quote dates become snapshots of their own
+  const handleApplyQuotes = (quotes: PriceQuote[], source: string) => {
+    const result = applyQuotes(assets, history, quotes, fx, source);
+    if (result.updated > 0) {
+      pushUndo(`行情更新 ${result.updated} 项`);
+      setAssets(result.assets);
+    }
+    if (result.snapshots > 0) setHistory(result.history);
+    if (result.updated > 0) runAlerts(result.assets, result.history, 'revaluation');
+    return result;
+  };
+
+  const handleAddTransaction = (fields: Omit<Transaction, 'id' | 'source'>) =>
+    setTransactions(prev => [...prev, createTransaction(fields)]);
+
+  const handleRemoveTransaction = (id: string) =>
+    setTransactions(prev => prev.filter(t => t.id !== id));
+
+  const handleTargetsChange = (next: AllocationTarget[]) =>
+    setTargets(prev => ({ ...prev, [view.portfolioId]: next }));
+
+  const handleSuggestionStatus = (id: string, status: SuggestionStatus) => {
+    if (!currentReport) return;
+    setAnalysisHistory(prev => updateRecordSuggestion(prev, currentReport.id, id, status));
+  };
+
+  // Streams the reply into the thread as it arrives; a question without a thread starts one
+  const handleChatSend = async (threadId: string | null, text: string) => {
+    const thread = chatThreads.find(t => t.id === threadId) || createChatThread(view.portfolioId, text);
+    const conversation = [...thread.messages, createChatMessage('user', text)];
+    const reply = createChatMessage('assistant', '');
+    setChatThreads(prev => upsertThread(prev, { ...thread, messages: [...conversation, reply] }));
+    setActiveChatId(thread.id);
+    setIsChatting(true);
+    try {
+      const systemPrompt = buildChatSystemPrompt(visibleAssets, fx, analysis, visibleHistory);
+      for await (const chunk of provider.chat(systemPrompt, chatContext(conversation))) {
+        setChatThreads(prev => appendToMessage(prev, thread.id, reply.id, chunk));
+      }
     } catch (error) {
       console.error(error);
-      alert("截图解析失败，请确保图片清晰并重试。");
+      setChatThreads(prev => markMessageFailed(prev, thread.id, reply.id));
     } finally {
-      setIsUploading(false);
-      // Reset input
-      event.target.value = '';
+      setIsChatting(false);
     }
   };
 
+  const handleDeleteThread = (id: string) => {
+    setChatThreads(prev => prev.filter(t => t.id !== id));
+    setActiveChatId(null);
+  };
+
   const handleRunAnalysis = async () => {
-    if (assets.length === 0) {
+    if (visibleAssets.length === 0) {
         alert("请先添加资产后再运行分析。");
         return;
     }
     setIsAnalyzing(true);
     try {
-      const result = await generateWealthAnalysis(assets);
-      setAnalysis(result);
+      const result = await analyzePortfolio(provider, visibleAssets, fx, riskMetrics);
+      const record = createAnalysisRecord(result.analysis, result.warnings, visibleAssets, view.portfolioId, provider, fx);
+      setAnalysisHistory(prev => [...prev, record]);
+      setSelectedReportId(null);
     } catch (error) {
       console.error(error);
       alert("AI 分析生成失败，请稍后重试。");
@@ -143,36 +526,125 @@ const App: React.FC = () => {
     }
   };
 
+  const handleFxChange = (next: FxSettings) => {
+    // Re-value stored snapshots when the base currency changes
+    if (next.baseCurrency !== fx.baseCurrency) {
+      setHistory(prev => prev.map(point => rebaseSnapshot(point, fx.baseCurrency, next)));
+    }
+    setFx(next);
+  };
+
+  const handlePortfoliosChange = (next: Portfolio[]) => {
+    setPortfolios(next);
+    // Fall back to the consolidated view if the selected portfolio was removed
+    if (view.portfolioId !== ALL_PORTFOLIOS_ID && !next.some(p => p.id === view.portfolioId)) {
+      setView(prev => ({ ...prev, portfolioId: ALL_PORTFOLIOS_ID }));
+    }
+  };
+
+  const handleRestore = (data: BackupData) => {
+    // The restored history already has its snapshots; don't rewrite today's
+    skipNextSnapshot.current = true;
+    setAssets(data.assets);
+    setHistory(data.history);
+    setAnalysisHistory(data.analyses);
+    setTransactions(data.transactions);
+    setAliases(data.aliases);
+    setTargets(data.targets);
+    setChatThreads(data.chats);
+    setFx(data.fx);
+    setPreprocess(data.preprocess);
+    setProviderConfig(data.provider);
+    setRiskSettings(data.risk);
+    setScenarios(data.scenarios);
+    setGoals(data.goals);
+    setPlanning(data.planning);
+    setPriceFeed(data.priceFeed);
+    setAlertRules(data.alertRules);
+    setAlerts(data.alerts);
+    handlePortfoliosChange(data.portfolios);
+    setUndoStack([]);
+    setSelectedReportId(null);
+    setActiveChatId(null);
+  };
+
+  const handleBackfillFromHoldings = (date: string) => {
+    setHistory(prev => upsertSnapshot(prev, buildSnapshot(date, assets, fx, 'manual')));
+  };
+
   // --- Render Helpers ---
 
   const renderDashboard = () => (
     <div className="space-y-8 animate-fade-in">
+        {driftAlerts.length > 0 && (
+            <div className="glass-panel p-4 rounded-2xl border-l-4 border-l-red-500 text-sm space-y-1">
+                <div className="text-red-300 font-medium">配置偏离超出容忍区间</div>
+                {driftAlerts.map(d => (
+                    <div key={`${d.scope}:${d.key}`} className="text-gray-300">
+                        {d.scope === 'asset'
+                            ? assets.find(a => a.id === d.key)?.name || '已删除资产'
+                            : CategoryDisplayMap[d.key as AssetCategory] || d.key}
+                        ：当前 {d.currentWeight.toFixed(1)}%，目标 {d.weight}% ±{d.band}
+                    </div>
+                ))}
+            </div>
+        )}
+
         {/* Top Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div className="glass-panel p-6 rounded-2xl relative overflow-hidden group">
                 <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
                     <Wallet size={80} className="text-gold-500" />
                 </div>
                 <h3 className="text-gray-400 text-sm font-medium tracking-widest mb-1">总资产净值</h3>
                 <div className="text-4xl font-sans text-white font-bold tracking-tight">
-                    ¥{totalNetWorth.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    {baseSymbol}{maskAmount(pnl.totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }), privacy)}
                 </div>
-                <div className="mt-2 text-green-400 flex items-center text-sm">
-                    <TrendingUp size={16} className="mr-1" />
-                    +¥{totalReturn.toLocaleString(undefined, { maximumFractionDigits: 0 })} 今日盈亏
+                <div className="mt-2 text-gray-400 text-sm">
+                    总成本 {baseSymbol}{maskAmount(pnl.totalCost.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}
                 </div>
+                {missingCurrencies.length > 0 && (
+                    <button onClick={() => setPage('settings')} className="mt-2 text-xs text-red-400 hover:text-red-300">
+                        缺少汇率：{missingCurrencies.join(', ')}
+                    </button>
+                )}
             </div>
 
             <div className="glass-panel p-6 rounded-2xl relative overflow-hidden group">
                  <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
                     <TrendingUp size={80} className="text-gold-500" />
                 </div>
-                <h3 className="text-gray-400 text-sm font-medium tracking-widest mb-1">累计收益率</h3>
-                <div className="text-4xl font-sans text-gold-400 font-bold tracking-tight">
-                    {totalReturnRate.toFixed(2)}%
+                <h3 className="text-gray-400 text-sm font-medium tracking-widest mb-1">今日盈亏</h3>
+                {pnl.todayPnl === null ? (
+                    <>
+                        <div className="text-4xl font-sans text-gray-500 font-bold tracking-tight">--</div>
+                        <div className="mt-2 text-gray-400 text-sm">暂无历史快照可对比</div>
+                    </>
+                ) : (
+                    <>
+                        <div className={`text-4xl font-sans font-bold tracking-tight ${pnl.todayPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {formatSignedAmount(pnl.todayPnl)}
+                        </div>
+                        <div className="mt-2 text-gray-400 text-sm">
+                            {pnl.todayPnlRate >= 0 ? '+' : ''}{pnl.todayPnlRate.toFixed(2)}%
+                            {pnl.previousDate ? ` · 对比 ${pnl.previousDate}` : ' · 按截图当日盈亏'}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="glass-panel p-6 rounded-2xl relative overflow-hidden group">
+                 <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity">
+                    {pnl.unrealizedPnl >= 0
+                        ? <TrendingUp size={80} className="text-gold-500" />
+                        : <TrendingDown size={80} className="text-gold-500" />}
+                </div>
+                <h3 className="text-gray-400 text-sm font-medium tracking-widest mb-1">持仓盈亏（累计）</h3>
+                <div className={`text-4xl font-sans font-bold tracking-tight ${pnl.unrealizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatSignedAmount(pnl.unrealizedPnl)}
                 </div>
                 <div className="mt-2 text-gray-400 text-sm">
-                    加权组合收益
+                    累计收益率 {pnl.unrealizedPnlRate >= 0 ? '+' : ''}{pnl.unrealizedPnlRate.toFixed(2)}%
                 </div>
             </div>
         </div>
@@ -182,34 +654,78 @@ const App: React.FC = () => {
             {/* Main Trend Chart */}
             <div className="lg:col-span-2 glass-panel p-6 rounded-2xl">
                 <div className="flex justify-between items-center mb-6">
-                    <h3 className="text-xl font-bold text-white">财富走势</h3>
-                    <div className="flex space-x-2 bg-obsidian-900 rounded-lg p-1 border border-neutral-800">
-                        <button 
-                            onClick={() => setChartType('netWorth')}
-                            className={`px-3 py-1 text-xs rounded-md transition-all ${chartType === 'netWorth' ? 'bg-gold-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                    <div>
+                        <h3 className="text-xl font-bold text-white">财富走势</h3>
+                        <div className="text-xs text-gray-400 mt-1">
+                            时间加权收益 <span className="font-mono text-blue-400">{performance.twr === null ? '--' : `${performance.twr.toFixed(2)}%`}</span>
+                            <span className="mx-2 text-gray-600">|</span>
+                            XIRR 年化 <span className="font-mono text-gold-300">{performance.xirr === null ? '--' : `${performance.xirr.toFixed(2)}%`}</span>
+                            <span className="mx-2 text-gray-600">|</span>
+                            净投入 <span className="font-mono">{formatSignedAmount(performance.netFlow)}</span>
+                        </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                        <select
+                            value={returnPeriod}
+                            onChange={(e) => setReturnPeriod(e.target.value as ReturnPeriod)}
+                            className="bg-obsidian-900 border border-neutral-800 rounded-lg px-2 py-1 text-xs text-gray-300"
                         >
-                            总净值
-                        </button>
-                        <button 
-                             onClick={() => setChartType('return')}
-                             className={`px-3 py-1 text-xs rounded-md transition-all ${chartType === 'return' ? 'bg-gold-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            {RETURN_PERIODS.map(p => <option key={p} value={p}>{ReturnPeriodLabelMap[p]}</option>)}
+                        </select>
+                        <select
+                            value={chartCategory}
+                            onChange={(e) => setChartCategory(e.target.value)}
+                            className="bg-obsidian-900 border border-neutral-800 rounded-lg px-2 py-1 text-xs text-gray-300"
                         >
-                            收益率
-                        </button>
+                            <option value="">全部资产</option>
+                            {Object.entries(CategoryDisplayMap).map(([category, label]) => (
+                                <option key={category} value={category}>{label}</option>
+                            ))}
+                        </select>
+                        <div className="flex space-x-2 bg-obsidian-900 rounded-lg p-1 border border-neutral-800">
+                            <button 
+                                onClick={() => setChartType('netWorth')}
+                                className={`px-3 py-1 text-xs rounded-md transition-all ${chartType === 'netWorth' ? 'bg-gold-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                总净值
+                            </button>
+                            <button 
+                                 onClick={() => setChartType('return')}
+                                 className={`px-3 py-1 text-xs rounded-md transition-all ${chartType === 'return' ? 'bg-gold-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                收益率
+                            </button>
+                        </div>
                     </div>
                 </div>
-                <TrendChart history={history} type={chartType} />
+                <TrendChart
+                    history={periodHistory}
+                    type={chartType}
+                    currency={fx.baseCurrency}
+                    category={chartCategory || undefined}
+                    performance={performance.series}
+                    privacy={privacy}
+                />
             </div>
 
             {/* Asset Allocation */}
             <div className="glass-panel p-6 rounded-2xl flex flex-col">
                 <h3 className="text-xl font-bold text-white mb-6">资产配置</h3>
                 <div className="flex-grow flex items-center justify-center">
-                    <AllocationChart assets={assets} />
+                    <AllocationChart assets={visibleAssets} fx={fx} privacy={privacy} />
                 </div>
             </div>
         </div>
 
+        <RiskPanel
+            metrics={riskMetrics}
+            settings={riskSettings}
+            periodLabel={ReturnPeriodLabelMap[returnPeriod]}
+            onSettingsChange={setRiskSettings}
+        />
+
+        <TargetAllocationPanel assets={visibleAssets} targets={visibleTargets} fx={fx} privacy={privacy} onChange={handleTargetsChange} />
+
         {/* Quick Analysis Preview if available */}
         {analysis && (
             <div className="glass-panel p-6 rounded-2xl border-l-4 border-l-gold-500">
@@ -217,8 +733,13 @@ const App: React.FC = () => {
                     <BrainCircuit size={20} className="mr-2" />
                     AI 财富洞察
                 </h3>
-                <p className="text-gray-300 italic">"{analysis.investmentAdvice.substring(0, 80)}..."</p>
-                <button onClick={() => setView('holdings')} className="mt-4 text-sm text-gold-400 hover:text-gold-300 flex items-center">
+                <p className="text-gray-300 italic">"{analysis.summary.substring(0, 80)}..."</p>
+                <div className="mt-3 text-sm text-gray-400">
+                    风险评分 <span className="text-gold-300 font-mono">{analysis.riskScore > 0 ? analysis.riskScore : '--'}/10</span>
+                    <span className="mx-2 text-gray-600">|</span>
+                    待处理建议 <span className="text-gold-300 font-mono">{analysis.suggestions.filter(s => s.status === 'open').length}</span>
+                </div>
+                <button onClick={() => setPage('holdings')} className="mt-4 text-sm text-gold-400 hover:text-gold-300 flex items-center">
                     查看完整报告 <ArrowRight size={14} className="ml-1" />
                 </button>
             </div>
@@ -230,96 +751,186 @@ const App: React.FC = () => {
     <div className="space-y-8 animate-fade-in">
         {/* Header Actions */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
-             <h2 className="text-3xl font-bold text-white">持仓明细</h2>
-             <button 
-                onClick={handleRunAnalysis}
-                disabled={isAnalyzing}
-                className="flex items-center px-6 py-3 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl hover:shadow-[0_0_15px_rgba(212,165,50,0.5)] transition-all disabled:opacity-50"
-             >
-                {isAnalyzing ? (
-                    <span className="animate-pulse">智能分析中...</span>
-                ) : (
-                    <>
-                        <BrainCircuit size={20} className="mr-2" /> 生成 AI 财富分析
-                    </>
-                )}
-             </button>
+             <h2 className="text-3xl font-bold text-white">
+                持仓明细 <span className="text-lg text-gray-500 font-normal">{portfolioName(portfolios, view.portfolioId)}</span>
+             </h2>
+             <div className="flex flex-wrap items-center gap-3">
+                 {undoStack.length > 0 && (
+                    <button
+                        onClick={handleUndo}
+                        className="flex items-center px-4 py-3 border border-neutral-700 text-gray-300 rounded-xl hover:text-white transition-all text-sm"
+                    >
+                        <Undo2 size={16} className="mr-2" /> 撤销{undoStack[undoStack.length - 1].label}
+                    </button>
+                 )}
+                 <button
+                    onClick={() => setShowAssetForm(true)}
+                    className="flex items-center px-4 py-3 border border-gold-600/50 text-gold-300 rounded-xl hover:bg-gold-600/20 transition-all text-sm"
+                 >
+                    <Plus size={16} className="mr-2" /> 手动添加
+                 </button>
+                 <button 
+                    onClick={handleRunAnalysis}
+                    disabled={isAnalyzing}
+                    className="flex items-center px-6 py-3 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl hover:shadow-[0_0_15px_rgba(212,165,50,0.5)] transition-all disabled:opacity-50"
+                 >
+                    {isAnalyzing ? (
+                        <span className="animate-pulse">智能分析中...</span>
+                    ) : (
+                        <>
+                            <BrainCircuit size={20} className="mr-2" /> 生成 AI 财富分析
+                        </>
+                    )}
+                 </button>
+             </div>
         </div>
 
+        {showAssetForm && (
+            <AssetForm
+                portfolios={portfolios}
+                defaultPortfolioId={view.portfolioId === ALL_PORTFOLIOS_ID ? DEFAULT_PORTFOLIO_ID : view.portfolioId}
+                onSubmit={handleAddAsset}
+                onCancel={() => setShowAssetForm(false)}
+            />
+        )}
+
         {/* Holdings Table */}
-        <div className="glass-panel rounded-2xl overflow-hidden">
-            <div className="overflow-x-auto">
-                <table className="w-full text-left">
-                    <thead className="bg-obsidian-900 text-gray-400 text-xs tracking-wider">
-                        <tr>
-                            <th className="p-4">资产名称</th>
-                            <th className="p-4">类别</th>
-                            <th className="p-4 text-right">金额</th>
-                            <th className="p-4 text-right">收益率</th>
-                            <th className="p-4 text-right">更新时间</th>
-                        </tr>
-                    </thead>
-                    <tbody className="divide-y divide-neutral-800">
-                        {assets.length === 0 ? (
-                            <tr>
-                                <td colSpan={5} className="p-8 text-center text-gray-500">
-                                    暂无持仓信息，请上传投资 APP 截图。
-                                </td>
-                            </tr>
-                        ) : assets.map((asset) => (
-                            <tr key={asset.id} className="hover:bg-neutral-800/50 transition-colors">
-                                <td className="p-4 font-medium text-white">{asset.name}</td>
-                                <td className="p-4">
-                                    <span className="px-2 py-1 rounded text-xs border border-neutral-700 text-gold-200 bg-obsidian-900">
-                                        {CategoryDisplayMap[asset.category] || asset.category}
-                                    </span>
-                                </td>
-                                <td className="p-4 text-right font-mono text-gray-200">
-                                    {asset.amount.toLocaleString()} <span className="text-xs text-gray-500">{asset.currency}</span>
-                                </td>
-                                <td className={`p-4 text-right font-mono ${asset.returnRate >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                                    {asset.returnRate > 0 ? '+' : ''}{asset.returnRate}%
-                                </td>
-                                <td className="p-4 text-right text-xs text-gray-500">
-                                    {new Date(asset.lastUpdated).toLocaleDateString('zh-CN')}
-                                </td>
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
-        </div>
+        <HoldingsTable
+            assets={visibleAssets}
+            portfolios={portfolios}
+            showPortfolio={view.portfolioId === ALL_PORTFOLIOS_ID}
+            privacy={privacy}
+            onUpdate={handleUpdateAsset}
+            onDelete={handleDeleteAssets}
+        />
+
+        <PriceFeedPanel assets={assets} settings={priceFeed} onSettingsChange={setPriceFeed} onApply={handleApplyQuotes} />
+
+        <TransactionLedger
+            key={view.portfolioId}
+            transactions={visibleTransactions}
+            assets={visibleAssets}
+            portfolios={portfolios}
+            defaultPortfolioId={view.portfolioId === ALL_PORTFOLIOS_ID ? DEFAULT_PORTFOLIO_ID : view.portfolioId}
+            showPortfolio={view.portfolioId === ALL_PORTFOLIOS_ID}
+            history={history}
+            fx={fx}
+            period={returnPeriod}
+            privacy={privacy}
+            onAdd={handleAddTransaction}
+            onRemove={handleRemoveTransaction}
+        />
 
         {/* AI Analysis Result Section */}
         {analysis && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="glass-panel p-6 rounded-2xl border-t-2 border-gold-500">
-                    <h3 className="text-xl font-bold text-white mb-4">资产配置分析</h3>
-                    <p className="text-gray-300 leading-relaxed whitespace-pre-line text-justify">
-                        {analysis.assetAllocationAnalysis}
-                    </p>
-                </div>
-                <div className="space-y-6">
-                    <div className="glass-panel p-6 rounded-2xl border-t-2 border-blue-500">
-                        <h3 className="text-xl font-bold text-white mb-4">投资理财建议</h3>
-                        <p className="text-gray-300 leading-relaxed whitespace-pre-line text-justify">
-                            {analysis.investmentAdvice}
-                        </p>
-                    </div>
-                    <div className="glass-panel p-6 rounded-2xl border-t-2 border-green-500">
-                         <h3 className="text-xl font-bold text-white mb-4">持仓调整建议</h3>
-                         <p className="text-gray-300 leading-relaxed whitespace-pre-line text-justify">
-                            {analysis.adjustmentSuggestions}
-                         </p>
-                    </div>
-                </div>
-            </div>
+            <AnalysisReport analysis={analysis} warnings={currentReport.warnings || []} onSuggestionStatus={handleSuggestionStatus} />
+        )}
+        <ChatPanel
+            threads={visibleThreads}
+            activeThreadId={visibleThreads.some(t => t.id === activeChatId) ? activeChatId : null}
+            isStreaming={isChatting}
+            onSelectThread={setActiveChatId}
+            onSend={handleChatSend}
+            onDeleteThread={handleDeleteThread}
+        />
+
+        {visibleReports.length > 1 && (
+            <AnalysisHistoryPanel
+                reports={visibleReports}
+                selectedId={currentReport?.id || null}
+                fx={fx}
+                privacy={privacy}
+                onSelect={setSelectedReportId}
+                onRemove={(id) => setAnalysisHistory(prev => prev.filter(r => r.id !== id))}
+            />
         )}
     </div>
   );
 
+  const renderScenarios = () => (
+    <div className="space-y-8 animate-fade-in">
+        <ScenarioPanel
+            key={view.portfolioId}
+            assets={visibleAssets}
+            fx={fx}
+            series={performance.series}
+            riskSettings={riskSettings}
+            scenarios={visibleScenarios}
+            portfolioId={view.portfolioId}
+            privacy={privacy}
+            onSave={(scenario) => setScenarios(prev => [...prev.filter(s => s.id !== scenario.id), scenario])}
+            onDelete={(id) => setScenarios(prev => prev.filter(s => s.id !== id))}
+        />
+    </div>
+  );
+
+  const renderGoals = () => (
+    <div className="space-y-8 animate-fade-in">
+        <GoalPlanner
+            assets={visibleAssets}
+            fx={fx}
+            goals={visibleGoals}
+            portfolioId={view.portfolioId}
+            settings={planning}
+            privacy={privacy}
+            onAdd={(goal) => setGoals(prev => [...prev, goal])}
+            onRemove={(id) => setGoals(prev => prev.filter(g => g.id !== id))}
+            onSettingsChange={setPlanning}
+        />
+    </div>
+  );
+
+  const renderSettings = () => (
+    <div className="space-y-8 animate-fade-in">
+        <h2 className="text-3xl font-bold text-white">设置</h2>
+        <FxSettingsPanel fx={fx} missingCurrencies={missingCurrencies} onChange={handleFxChange} />
+        <ProviderSettingsPanel config={providerConfig} onChange={setProviderConfig} />
+        <PreprocessSettingsPanel settings={preprocess} onChange={setPreprocess} />
+        <PortfolioSettingsPanel portfolios={portfolios} assets={assets} onChange={handlePortfoliosChange} />
+        <SnapshotEditor
+            history={history}
+            currency={fx.baseCurrency}
+            onUpsert={(point) => setHistory(prev => upsertSnapshot(prev, point))}
+            onRemove={(date) => setHistory(prev => removeSnapshot(prev, date))}
+            onBackfillFromHoldings={handleBackfillFromHoldings}
+        />
+        <AliasSettingsPanel aliases={aliases} assets={assets} onChange={setAliases} />
+        <AlertRulesPanel
+            rules={alertRules}
+            assets={assets}
+            portfolios={portfolios}
+            browserNotifications={browserNotifications}
+            onBrowserNotificationsChange={handleBrowserNotificationsChange}
+            onChange={setAlertRules}
+        />
+        <BackupPanel data={appData} onRestore={handleRestore} />
+        <SecuritySettingsPanel
+            encrypted={encrypted}
+            autoLockMinutes={autoLockMinutes}
+            onEnable={handleEnableEncryption}
+            onDisable={handleDisableEncryption}
+            onAutoLockChange={handleAutoLockChange}
+            onLock={handleLock}
+        />
+    </div>
+  );
+
+  if (isLocked === null) return <div className="min-h-screen bg-obsidian-950" />;
+  if (isLocked) return <LockScreen onUnlock={handleUnlock} />;
+
   return (
-    <div className="min-h-screen bg-obsidian-950 text-gray-100 font-sans selection:bg-gold-500 selection:text-black">
+    <div
+      className="min-h-screen bg-obsidian-950 text-gray-100 font-sans selection:bg-gold-500 selection:text-black"
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={(e) => { if (!e.relatedTarget) setIsDragging(false); }}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-0 z-[70] pointer-events-none border-4 border-dashed border-gold-500/60 bg-black/60 flex items-center justify-center">
+            <span className="text-2xl text-gold-300 font-bold">松开以上传截图（可多张）</span>
+        </div>
+      )}
+
       {/* Navigation Bar */}
       <nav className="fixed top-0 w-full z-50 glass-panel border-b border-white/5">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -336,25 +947,64 @@ const App: React.FC = () => {
                 <div className="hidden md:block">
                     <div className="ml-10 flex items-baseline space-x-4">
                         <button 
-                            onClick={() => setView('dashboard')}
-                            className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view === 'dashboard' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
+                            onClick={() => setPage('dashboard')}
+                            className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view.page === 'dashboard' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
                         >
                             <LayoutDashboard size={16} className="mr-2" /> 资产总览
                         </button>
                         <button 
-                             onClick={() => setView('holdings')}
-                             className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view === 'holdings' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
+                             onClick={() => setPage('holdings')}
+                             className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view.page === 'holdings' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
                         >
                             <List size={16} className="mr-2" /> 持仓与分析
                         </button>
+                        <button 
+                             onClick={() => setPage('scenarios')}
+                             className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view.page === 'scenarios' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            <FlaskConical size={16} className="mr-2" /> 情景模拟
+                        </button>
+                        <button 
+                             onClick={() => setPage('goals')}
+                             className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view.page === 'goals' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            <Target size={16} className="mr-2" /> 目标规划
+                        </button>
+                        <button 
+                             onClick={() => setPage('settings')}
+                             className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${view.page === 'settings' ? 'text-gold-400 bg-white/5' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            <Settings size={16} className="mr-2" /> 设置
+                        </button>
                     </div>
                 </div>
 
                 {/* Upload Button (Sticky CTA) */}
-                <div className="relative">
+                <div className="relative flex items-center gap-3">
+                     <NotificationCenter
+                        alerts={alerts}
+                        onMarkAllRead={() => setAlerts(prev => prev.map(a => a.read ? a : { ...a, read: true }))}
+                        onClear={() => setAlerts([])}
+                     />
+                     <button
+                        onClick={togglePrivacy}
+                        title={privacy ? '显示金额' : '隐藏金额'}
+                        className={`p-2 rounded-full border transition-all ${privacy ? 'border-gold-500 text-gold-300 bg-gold-600/20' : 'border-neutral-800 text-gray-400 hover:text-white'}`}
+                     >
+                        {privacy ? <EyeOff size={16} /> : <Eye size={16} />}
+                     </button>
+                     <select
+                        value={view.portfolioId}
+                        onChange={(e) => setView(prev => ({ ...prev, portfolioId: e.target.value }))}
+                        className="bg-obsidian-900 border border-neutral-800 rounded-full px-3 py-2 text-sm text-gray-300"
+                     >
+                        <option value={ALL_PORTFOLIOS_ID}>{portfolioName(portfolios, ALL_PORTFOLIOS_ID)}</option>
+                        {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                     </select>
                      <input 
                         type="file" 
-                        accept="image/*"
+                        accept="image/*,.heic,.heif"
+                        multiple
                         onChange={handleFileUpload}
                         className="hidden"
                         id="nav-upload"
@@ -378,9 +1028,49 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="pt-24 pb-12 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
-        {view === 'dashboard' ? renderDashboard() : renderHoldings()}
+        {storageWarnings.length > 0 && (
+            <div className="glass-panel p-4 mb-6 rounded-2xl border-l-4 border-l-red-500 text-sm flex justify-between gap-4">
+                <div className="space-y-1 text-red-300">
+                    {storageWarnings.map((w, i) => <div key={i}>{w}</div>)}
+                </div>
+                <button onClick={() => setStorageWarnings([])} className="text-gray-500 hover:text-white self-start">
+                    <X size={16} />
+                </button>
+            </div>
+        )}
+        {view.page === 'dashboard' && renderDashboard()}
+        {view.page === 'holdings' && renderHoldings()}
+        {view.page === 'scenarios' && renderScenarios()}
+        {view.page === 'goals' && renderGoals()}
+        {view.page === 'settings' && renderSettings()}
       </main>
 
+      {uploadJobs.length > 0 && (
+        <UploadQueue jobs={uploadJobs} onDismiss={() => setUploadJobs([])} />
+      )}
+
+      {pendingCrop && (
+        <CropDialog
+            files={pendingCrop}
+            defaultCrop={preprocess.defaultCrop}
+            onConfirm={handleConfirmCrop}
+            onCancel={() => setPendingCrop(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportReview
+            rows={pendingImport.rows}
+            assets={filterByPortfolio(assets, pendingImport.portfolioId)}
+            portfolios={portfolios}
+            portfolioId={pendingImport.portfolioId}
+            onPortfolioChange={handleImportPortfolioChange}
+            onChange={(rows) => setPendingImport({ ...pendingImport, rows })}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="border-t border-white/5 mt-auto bg-obsidian-900 py-8">
         <div className="max-w-7xl mx-auto px-4 text-center text-gray-600 text-sm">
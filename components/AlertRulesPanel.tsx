@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from './IconComponents';
+import { AlertRule, AlertRuleKind, Asset, AssetCategory, Portfolio, ALL_PORTFOLIOS_ID } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { portfolioName } from '../services/portfolioService';
+import { AlertRuleKindLabelMap, createAlertRule, describeAlertRule, validateAlertRule } from '../services/alertService';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  assets: Asset[];
+  portfolios: Portfolio[];
+  browserNotifications: boolean;
+  onBrowserNotificationsChange: (enabled: boolean) => void;
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+// Starting threshold for each kind when the form switches to it
+const DEFAULT_THRESHOLDS: Record<AlertRuleKind, number> = {
+  returnRate: -10,
+  categoryWeight: 0,
+  drawdown: 10,
+  stale: 30
+};
+
+const ThresholdLabelMap: Record<AlertRuleKind, string> = {
+  returnRate: '收益率 %',
+  categoryWeight: '',
+  drawdown: '回撤 %',
+  stale: '天数'
+};
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ rules, assets, portfolios, browserNotifications, onBrowserNotificationsChange, onChange }) => {
+  const [kind, setKind] = useState<AlertRuleKind>('returnRate');
+  const [portfolioId, setPortfolioId] = useState(ALL_PORTFOLIOS_ID);
+  const [assetId, setAssetId] = useState('');
+  const [direction, setDirection] = useState<'above' | 'below'>('below');
+  const [category, setCategory] = useState<AssetCategory>(AssetCategory.STOCK);
+  const [threshold, setThreshold] = useState(String(DEFAULT_THRESHOLDS.returnRate));
+  const [min, setMin] = useState('0');
+  const [max, setMax] = useState('60');
+
+  const fields = {
+    kind,
+    portfolioId,
+    threshold: Number(threshold),
+    ...(kind === 'returnRate' ? { assetId: assetId || undefined, direction } : {}),
+    ...(kind === 'categoryWeight' ? { category, min: Number(min), max: Number(max), threshold: 0 } : {})
+  };
+  const error = validateAlertRule(fields);
+  const notificationsSupported = typeof Notification !== 'undefined';
+
+  const changeKind = (next: AlertRuleKind) => {
+    setKind(next);
+    setThreshold(String(DEFAULT_THRESHOLDS[next]));
+  };
+
+  const add = () => {
+    if (error) return;
+    onChange([...rules, createAlertRule(fields)]);
+  };
+
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">提醒规则</h3>
+        <p className="text-sm text-gray-500">每次导入截图或更新行情后检查。同一持仓或类别在触发后，需先恢复正常才会再次提醒。</p>
+
+        {rules.length > 0 && (
+            <div className="divide-y divide-neutral-800 text-sm">
+                {rules.map(rule => (
+                    <div key={rule.id} className="flex items-center justify-between gap-4 py-2">
+                        <label className="flex items-center gap-3 text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={rule.enabled}
+                                onChange={() => update(rule.id, { enabled: !rule.enabled, active: [] })}
+                                className="accent-yellow-600"
+                            />
+                            <span className={rule.enabled ? '' : 'text-gray-500 line-through'}>{describeAlertRule(rule, assets)}</span>
+                            <span className="text-xs text-gray-500">{portfolioName(portfolios, rule.portfolioId)}</span>
+                            {rule.active.length > 0 && <span className="text-xs text-red-400">触发中 {rule.active.length}</span>}
+                        </label>
+                        <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-gray-500 hover:text-red-400">
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3 text-sm text-gray-400 border-t border-neutral-800 pt-4">
+            <label className="flex flex-col gap-1">
+                类型
+                <select value={kind} onChange={(e) => changeKind(e.target.value as AlertRuleKind)} className={inputClass}>
+                    {(Object.keys(AlertRuleKindLabelMap) as AlertRuleKind[]).map(k => <option key={k} value={k}>{AlertRuleKindLabelMap[k]}</option>)}
+                </select>
+            </label>
+            <label className="flex flex-col gap-1">
+                账户
+                <select value={portfolioId} onChange={(e) => setPortfolioId(e.target.value)} className={inputClass}>
+                    <option value={ALL_PORTFOLIOS_ID}>{portfolioName(portfolios, ALL_PORTFOLIOS_ID)}</option>
+                    {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+            </label>
+            {kind === 'returnRate' && (
+                <>
+                    <label className="flex flex-col gap-1">
+                        持仓
+                        <select value={assetId} onChange={(e) => setAssetId(e.target.value)} className={`${inputClass} w-40`}>
+                            <option value="">任一持仓</option>
+                            {assets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        条件
+                        <select value={direction} onChange={(e) => setDirection(e.target.value as 'above' | 'below')} className={inputClass}>
+                            <option value="below">低于</option>
+                            <option value="above">高于</option>
+                        </select>
+                    </label>
+                </>
+            )}
+            {kind === 'categoryWeight' ? (
+                <>
+                    <label className="flex flex-col gap-1">
+                        类别
+                        <select value={category} onChange={(e) => setCategory(e.target.value as AssetCategory)} className={inputClass}>
+                            {Object.values(AssetCategory).map(c => <option key={c} value={c}>{CategoryDisplayMap[c]}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        最低 %
+                        <input type="number" step="any" value={min} onChange={(e) => setMin(e.target.value)} className={`${inputClass} w-20 font-mono`} />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        最高 %
+                        <input type="number" step="any" value={max} onChange={(e) => setMax(e.target.value)} className={`${inputClass} w-20 font-mono`} />
+                    </label>
+                </>
+            ) : (
+                <label className="flex flex-col gap-1">
+                    {ThresholdLabelMap[kind]}
+                    <input type="number" step="any" value={threshold} onChange={(e) => setThreshold(e.target.value)} className={`${inputClass} w-24 font-mono`} />
+                </label>
+            )}
+            <button
+                onClick={add}
+                disabled={!!error}
+                className="flex items-center px-4 py-1.5 border border-gold-600/50 rounded-full text-gold-300 hover:bg-gold-600/20 disabled:opacity-50"
+            >
+                <Plus size={14} className="mr-1" /> 添加规则
+            </button>
+        </div>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        <label className="flex items-center gap-2 text-sm text-gray-400 border-t border-neutral-800 pt-4">
+            <input
+                type="checkbox"
+                checked={browserNotifications}
+                disabled={!notificationsSupported}
+                onChange={() => onBrowserNotificationsChange(!browserNotifications)}
+                className="accent-yellow-600"
+            />
+            同时发送浏览器通知
+            {!notificationsSupported && <span className="text-xs text-gray-500">（当前浏览器不支持）</span>}
+        </label>
+    </div>
+  );
+};
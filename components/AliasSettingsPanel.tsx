@@ -0,0 +1,40 @@
+import React from 'react';
+import { Trash2 } from './IconComponents';
+import { Asset, AssetAlias } from '../types';
+
+interface AliasSettingsPanelProps {
+  aliases: AssetAlias[];
+  assets: Asset[];
+  onChange: (aliases: AssetAlias[]) => void;
+}
+
+export const AliasSettingsPanel: React.FC<AliasSettingsPanelProps> = ({ aliases, assets, onChange }) => (
+  <div className="glass-panel p-6 rounded-2xl space-y-4">
+      <h3 className="text-xl font-bold text-white">资产别名</h3>
+      <p className="text-sm text-gray-500">导入时手动确认过的名称映射，后续导入会自动匹配到同一资产。</p>
+      {aliases.length === 0 ? (
+          <div className="text-sm text-gray-500">暂无别名。</div>
+      ) : (
+          <table className="w-full text-left text-sm">
+              <tbody className="divide-y divide-neutral-800">
+                  {aliases.map(alias => (
+                      <tr key={alias.alias}>
+                          <td className="py-2 font-mono text-gray-300">{alias.alias}</td>
+                          <td className="py-2 text-white">
+                              {assets.find(a => a.id === alias.assetId)?.name || <span className="text-red-400">资产已删除</span>}
+                          </td>
+                          <td className="py-2 text-right">
+                              <button
+                                  onClick={() => onChange(aliases.filter(a => a.alias !== alias.alias))}
+                                  className="text-gray-500 hover:text-red-400"
+                              >
+                                  <Trash2 size={16} />
+                              </button>
+                          </td>
+                      </tr>
+                  ))}
+              </tbody>
+          </table>
+      )}
+  </div>
+);
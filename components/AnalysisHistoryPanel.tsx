@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Trash2 } from './IconComponents';
+import { AnalysisRecord, FxSettings } from '../types';
+import { currencySymbol } from '../services/fxService';
+import { ProviderLabelMap } from '../services/aiProvider';
+import { maskAmount } from '../services/privacyService';
+import {
+  SuggestionActionLabelMap,
+  SuggestionFollowUpLabelMap,
+  diffAnalysisRecords
+} from '../services/analysisService';
+
+interface AnalysisHistoryPanelProps {
+  reports: AnalysisRecord[]; // Newest first
+  selectedId: string | null;
+  fx: FxSettings;
+  privacy: boolean; // Mask amounts, keeping weights and scores visible
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const FollowUpClassMap: Record<string, string> = {
+  followed: 'text-green-400',
+  'not-followed': 'text-red-400',
+  unknown: 'text-gray-500'
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-CN', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const sourceLabel = (report: AnalysisRecord) =>
+  report.provider ? `${ProviderLabelMap[report.provider]} · ${report.model}` : '来源未记录';
+
+export const AnalysisHistoryPanel: React.FC<AnalysisHistoryPanelProps> = ({ reports, selectedId, fx, privacy, onSelect, onRemove }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const symbol = currencySymbol(fx.baseCurrency);
+
+  // Compare in chronological order whichever way round they were picked
+  const compared = reports
+    .filter(r => compareIds.includes(r.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const diff = compared.length === 2 ? diffAnalysisRecords(compared[0], compared[1], fx) : null;
+
+  const toggleCompare = (id: string) =>
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+
+  const formatValue = (value?: number) => value === undefined ? '—' : `${symbol}${maskAmount(value.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}`;
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">历史报告</h3>
+        <p className="text-sm text-gray-500">每次分析都会连同当时的持仓一起保存。勾选两份报告可并排对比。</p>
+
+        <ol className="relative border-l border-neutral-800 ml-2 space-y-3">
+            {reports.map(report => {
+                const open = report.analysis.suggestions.filter(s => s.status === 'open').length;
+                return (
+                    <li key={report.id} className="ml-4">
+                        <span className={`absolute -left-1.5 mt-2 h-3 w-3 rounded-full ${report.id === selectedId ? 'bg-gold-400' : 'bg-neutral-700'}`} />
+                        <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                            <button onClick={() => onSelect(report.id)} className="text-left">
+                                <span className={report.id === selectedId ? 'text-gold-300' : 'text-gray-200 hover:text-white'}>{formatTime(report.createdAt)}</span>
+                                <span className="ml-3 text-xs text-gray-500">{sourceLabel(report)}</span>
+                                <span className="ml-3 text-xs text-gray-400">
+                                    风险 {report.analysis.riskScore || '--'}/10 · 待处理 {open} · 持仓 {report.holdings.length} 项
+                                </span>
+                            </button>
+                            <div className="flex items-center gap-3">
+                                <label className="flex items-center text-xs text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(report.id)}
+                                        onChange={() => toggleCompare(report.id)}
+                                        className="mr-1 accent-yellow-600"
+                                    />
+                                    对比
+                                </label>
+                                <button onClick={() => onRemove(report.id)} className="p-1 text-gray-500 hover:text-red-400" title="删除报告">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+
+        {diff && (
+            <div className="space-y-6 border-t border-neutral-800 pt-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {compared.map(report => (
+                        <div key={report.id} className="bg-obsidian-900 rounded-xl p-4 text-sm space-y-2">
+                            <div className="text-gold-300">{formatTime(report.createdAt)}</div>
+                            <div className="text-xs text-gray-500">{sourceLabel(report)}</div>
+                            <div className="text-gray-300">风险评分 {report.analysis.riskScore || '--'}/10</div>
+                            <p className="text-gray-400 leading-relaxed">{report.analysis.summary}</p>
+                            <ul className="space-y-1 text-xs text-gray-400">
+                                {report.analysis.suggestions.map(s => (
+                                    <li key={s.id}>· {SuggestionActionLabelMap[s.action]} {s.asset || '整体组合'}：{s.rationale}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="text-sm text-gray-300">
+                    风险评分变化 <span className="font-mono">{diff.riskScoreChange >= 0 ? '+' : ''}{diff.riskScoreChange}</span>
+                    <span className="mx-2 text-gray-600">|</span>
+                    总值变化 <span className="font-mono">{diff.totalValueChange >= 0 ? '+' : '-'}{formatValue(Math.abs(diff.totalValueChange))}</span>
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-bold text-white mb-2">前一份报告的建议是否执行</h4>
+                    <table className="w-full text-left text-sm">
+                        <tbody className="divide-y divide-neutral-800">
+                            {diff.followUps.map(({ suggestion, followUp }) => (
+                                <tr key={suggestion.id}>
+                                    <td className="p-2 text-gray-300">{SuggestionActionLabelMap[suggestion.action]} {suggestion.asset || '整体组合'}</td>
+                                    <td className={`p-2 ${FollowUpClassMap[followUp]}`}>{SuggestionFollowUpLabelMap[followUp]}</td>
+                                    <td className="p-2 text-xs text-gray-500">
+                                        {suggestion.status === 'done' ? '已标记完成' : suggestion.status === 'dismissed' ? '已忽略' : ''}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-bold text-white mb-2">持仓变化</h4>
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-400 text-xs tracking-wider">
+                            <tr>
+                                <th className="p-2">资产</th>
+                                <th className="p-2 text-right">之前</th>
+                                <th className="p-2 text-right">之后</th>
+                                <th className="p-2 text-right">占比变化</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-neutral-800">
+                            {diff.holdings.map(h => (
+                                <tr key={h.assetId}>
+                                    <td className="p-2 text-gray-200">
+                                        {h.name}
+                                        {h.before === undefined && <span className="ml-2 text-xs text-green-400">新增</span>}
+                                        {h.after === undefined && <span className="ml-2 text-xs text-red-400">已清仓</span>}
+                                    </td>
+                                    <td className="p-2 text-right font-mono text-gray-400">{formatValue(h.before)}</td>
+                                    <td className="p-2 text-right font-mono text-gray-400">{formatValue(h.after)}</td>
+                                    <td className="p-2 text-right font-mono text-gray-300">
+                                        {h.beforeWeight.toFixed(1)}% → {h.afterWeight.toFixed(1)}%
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Check, X, Undo2 } from './IconComponents';
+import { AnalysisResponse, SuggestionStatus, ValidationWarning } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import {
+  DiversificationRatingLabelMap,
+  SuggestionActionLabelMap,
+  SuggestionPriorityLabelMap,
+  sortSuggestions
+} from '../services/analysisService';
+
+interface AnalysisReportProps {
+  analysis: AnalysisResponse;
+  warnings: ValidationWarning[];
+  onSuggestionStatus: (id: string, status: SuggestionStatus) => void;
+}
+
+const PriorityClassMap: Record<string, string> = {
+  high: 'border-red-500/60 text-red-300',
+  medium: 'border-gold-500/60 text-gold-300',
+  low: 'border-neutral-600 text-gray-400'
+};
+
+const RatingClassMap: Record<string, string> = {
+  good: 'text-green-400',
+  fair: 'text-gold-300',
+  poor: 'text-red-400'
+};
+
+// Green for conservative portfolios through red for aggressive ones
+const riskColor = (score: number) => score <= 3 ? 'text-green-400' : score <= 6 ? 'text-gold-400' : 'text-red-400';
+
+export const AnalysisReport: React.FC<AnalysisReportProps> = ({ analysis, warnings, onSuggestionStatus }) => {
+  const suggestions = sortSuggestions(analysis);
+  const openCount = suggestions.filter(s => s.status === 'open').length;
+
+  return (
+    <div className="space-y-6">
+        {warnings.length > 0 && (
+            <div className="glass-panel p-4 rounded-2xl border-l-4 border-l-red-500 text-sm text-red-300 space-y-1">
+                {warnings.map((w, i) => <div key={i}>{w.message}</div>)}
+            </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="glass-panel p-6 rounded-2xl border-t-2 border-gold-500">
+                <h3 className="text-gray-400 text-sm font-medium tracking-widest mb-1">风险评分</h3>
+                <div className={`text-5xl font-bold ${riskColor(analysis.riskScore)}`}>
+                    {analysis.riskScore > 0 ? analysis.riskScore : '--'}<span className="text-lg text-gray-500"> / 10</span>
+                </div>
+                <p className="mt-4 text-gray-300 leading-relaxed whitespace-pre-line text-justify">{analysis.summary}</p>
+            </div>
+
+            <div className="glass-panel p-6 rounded-2xl border-t-2 border-red-500">
+                <h3 className="text-xl font-bold text-white mb-4">集中度提示</h3>
+                {analysis.concentrationWarnings.length === 0 ? (
+                    <p className="text-sm text-gray-500">未发现明显的集中度风险。</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {analysis.concentrationWarnings.map((w, i) => (
+                            <li key={i} className="text-sm text-gray-300">
+                                {w.holdings.length > 0 && (
+                                    <div className="text-xs text-red-300 mb-1">{w.holdings.join('、')}</div>
+                                )}
+                                {w.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="glass-panel p-6 rounded-2xl border-t-2 border-blue-500">
+                <h3 className="text-xl font-bold text-white mb-4">分散度评级</h3>
+                {analysis.diversification.length === 0 ? (
+                    <p className="text-sm text-gray-500">暂无评级。</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {analysis.diversification.map(d => (
+                            <li key={d.category} className="text-sm">
+                                <span className="text-gray-200">{CategoryDisplayMap[d.category] || d.category}</span>
+                                <span className={`ml-2 font-medium ${RatingClassMap[d.rating]}`}>{DiversificationRatingLabelMap[d.rating]}</span>
+                                {d.comment && <div className="text-xs text-gray-500 mt-1">{d.comment}</div>}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+
+        <div className="space-y-3">
+            <h3 className="text-xl font-bold text-white">
+                调整建议 <span className="text-sm text-gray-500 font-normal">{openCount} 项待处理</span>
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {suggestions.map(s => (
+                    <div
+                        key={s.id}
+                        className={`glass-panel p-4 rounded-2xl border-l-4 ${PriorityClassMap[s.priority]} ${s.status !== 'open' ? 'opacity-50' : ''}`}
+                    >
+                        <div className="flex justify-between items-start gap-3">
+                            <div className="text-sm">
+                                <span className="px-2 py-0.5 rounded border border-neutral-700 bg-obsidian-900 text-gold-200 text-xs mr-2">
+                                    {SuggestionActionLabelMap[s.action]}
+                                </span>
+                                <span className="text-white font-medium">{s.asset || '整体组合'}</span>
+                                <span className="ml-2 text-xs">优先级 {SuggestionPriorityLabelMap[s.priority]}</span>
+                            </div>
+                            <div className="flex items-center whitespace-nowrap">
+                                {s.status === 'open' ? (
+                                    <>
+                                        <button onClick={() => onSuggestionStatus(s.id, 'done')} className="p-1 text-gray-500 hover:text-green-400" title="标记为已完成">
+                                            <Check size={16} />
+                                        </button>
+                                        <button onClick={() => onSuggestionStatus(s.id, 'dismissed')} className="p-1 text-gray-500 hover:text-red-400" title="忽略">
+                                            <X size={16} />
+                                        </button>
+                                    </>
+                                ) : (
+                                    <button onClick={() => onSuggestionStatus(s.id, 'open')} className="flex items-center p-1 text-xs text-gray-500 hover:text-white" title="恢复">
+                                        {s.status === 'done' ? '已完成' : '已忽略'} <Undo2 size={14} className="ml-1" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        <p className={`mt-2 text-sm text-gray-300 leading-relaxed ${s.status === 'done' ? 'line-through' : ''}`}>{s.rationale}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
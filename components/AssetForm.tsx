@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { AssetCategory, AssetDraft, Portfolio } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { EMPTY_DRAFT, validateDraft } from '../services/assetService';
+
+interface AssetFormProps {
+  portfolios: Portfolio[];
+  defaultPortfolioId: string;
+  onSubmit: (draft: AssetDraft, portfolioId: string) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+export const AssetForm: React.FC<AssetFormProps> = ({ portfolios, defaultPortfolioId, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<AssetDraft>(EMPTY_DRAFT);
+  const [portfolioId, setPortfolioId] = useState(defaultPortfolioId);
+  const [touched, setTouched] = useState(false);
+  const error = validateDraft(draft);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setTouched(true);
+    if (error) return;
+    onSubmit(draft, portfolioId);
+    setDraft(EMPTY_DRAFT);
+    setTouched(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-lg font-bold text-white">手动添加资产</h3>
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+            <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="资产名称"
+                className={`${inputClass} col-span-2 text-white`}
+            />
+            <select
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value as AssetCategory })}
+                className={inputClass}
+            >
+                {Object.values(AssetCategory).map(c => (
+                    <option key={c} value={c}>{CategoryDisplayMap[c]}</option>
+                ))}
+            </select>
+            <input
+                type="number"
+                step="any"
+                value={draft.amount || ''}
+                onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) })}
+                placeholder="金额"
+                className={`${inputClass} text-right font-mono`}
+            />
+            <input
+                type="number"
+                step="any"
+                value={draft.returnRate || ''}
+                onChange={(e) => setDraft({ ...draft, returnRate: Number(e.target.value) })}
+                placeholder="收益率 %"
+                className={`${inputClass} text-right font-mono`}
+            />
+            <input
+                value={draft.currency}
+                onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+                placeholder="货币"
+                className={`${inputClass} font-mono uppercase`}
+            />
+            <input
+                type="number"
+                step="any"
+                value={draft.quantity ?? ''}
+                onChange={(e) => setDraft({ ...draft, quantity: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder="数量（可选）"
+                className={`${inputClass} text-right font-mono`}
+            />
+            <input
+                type="number"
+                step="any"
+                value={draft.costBasis ?? ''}
+                onChange={(e) => setDraft({ ...draft, costBasis: e.target.value === '' ? undefined : Number(e.target.value) })}
+                placeholder="总成本（可选）"
+                className={`${inputClass} text-right font-mono`}
+            />
+            <input
+                value={draft.code || ''}
+                onChange={(e) => setDraft({ ...draft, code: e.target.value || undefined })}
+                placeholder="代码（可选）"
+                className={`${inputClass} font-mono`}
+            />
+            <select value={portfolioId} onChange={(e) => setPortfolioId(e.target.value)} className={inputClass}>
+                {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+        </div>
+        {touched && error && <div className="text-sm text-red-400">{error}</div>}
+        <div className="flex justify-end gap-3">
+            <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl border border-neutral-700 text-gray-300 hover:text-white text-sm">
+                取消
+            </button>
+            <button type="submit" className="px-4 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl text-sm">
+                添加
+            </button>
+        </div>
+    </form>
+  );
+};
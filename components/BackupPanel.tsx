@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Download, FileUp } from './IconComponents';
+import { BackupData, BackupFile, RestoreMode, RestorePlan } from '../types';
+import { BACKUP_VERSION, RecordListLabelMap, RejectedRecord, RestoreModeLabelMap, backupFileName, createBackup, downloadBlob, parseBackup, planRestore } from '../services/backupService';
+import { quarantineRecords } from '../services/storageService';
+import { buildExportTables, tableToCsv, tablesToXlsx } from '../services/exportService';
+
+interface BackupPanelProps {
+  data: BackupData; // The current state
+  onRestore: (data: BackupData) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+const buttonClass = 'cursor-pointer flex items-center px-4 py-2 border border-gold-600/50 rounded-full text-sm text-gold-300 hover:bg-gold-600/20 transition-all';
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ data, onRestore }) => {
+  const [csvTable, setCsvTable] = useState('holdings');
+  const [pending, setPending] = useState<{ backup: BackupFile; fromVersion: number; warnings: string[]; rejected: RejectedRecord[] } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const tables = buildExportTables(data);
+  const plan = pending ? planRestore(data, pending.backup, mode, pending.fromVersion, pending.warnings) : null;
+
+  const exportJson = () => {
+    const json = JSON.stringify(createBackup(data), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), backupFileName('json'));
+  };
+
+  const exportCsv = () => {
+    const table = tables.find(t => t.key === csvTable) || tables[0];
+    downloadBlob(tableToCsv(table), backupFileName(`${csvTable}.csv`));
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setPending(parseBackup(await file.text()));
+      setMessage(null);
+    } catch (error) {
+      setPending(null);
+      setMessage(error instanceof Error ? error.message : '备份读取失败。');
+    }
+  };
+
+  const apply = () => {
+    if (!plan || !pending) return;
+    onRestore(plan.data);
+    // Kept alongside records storage itself rejected, rather than thrown away
+    if (pending.rejected.length > 0) {
+      quarantineRecords('backup', pending.rejected).catch(console.error);
+    }
+    setPending(null);
+    setMessage('备份已恢复。');
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">备份与导出</h3>
+        <p className="text-sm text-gray-500">
+            数据只保存在本浏览器中，清除缓存会全部丢失。完整备份为 JSON，可在其他设备恢复；CSV / Excel 便于在表格软件中查看。备份中不包含 API Key。
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+            <button onClick={exportJson} className={buttonClass}>
+                <Download size={16} className="mr-2" /> 完整备份 (JSON)
+            </button>
+            <button onClick={() => downloadBlob(tablesToXlsx(tables), backupFileName('xlsx'))} className={buttonClass}>
+                <Download size={16} className="mr-2" /> 导出 Excel
+            </button>
+            <div className="flex items-center gap-2">
+                <select value={csvTable} onChange={(e) => setCsvTable(e.target.value)} className={`${inputClass} text-sm`}>
+                    {tables.map(t => <option key={t.key} value={t.key}>{t.name}</option>)}
+                </select>
+                <button onClick={exportCsv} className={buttonClass}>
+                    <Download size={16} className="mr-2" /> 导出 CSV
+                </button>
+            </div>
+        </div>
+
+        <div className="flex items-center gap-4 border-t border-neutral-800 pt-4">
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" id="backup-import" />
+            <label htmlFor="backup-import" className={buttonClass}>
+                <FileUp size={16} className="mr-2" /> 从备份恢复
+            </label>
+            {message && <span className="text-sm text-gray-400">{message}</span>}
+        </div>
+
+        {plan && (
+            <div className="bg-obsidian-900 rounded-xl p-4 space-y-4 text-sm">
+                <div className="text-gray-300">
+                    备份时间 {plan.exportedAt ? new Date(plan.exportedAt).toLocaleString('zh-CN') : '未知'}
+                    {plan.fromVersion < BACKUP_VERSION && (
+                        <span className="ml-3 text-gold-300">旧版备份 v{plan.fromVersion}，已自动升级</span>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap gap-4">
+                    {(Object.keys(RestoreModeLabelMap) as RestoreMode[]).map(m => (
+                        <label key={m} className="flex items-center text-gray-300">
+                            <input type="radio" checked={mode === m} onChange={() => setMode(m)} className="mr-2 accent-yellow-600" />
+                            {RestoreModeLabelMap[m]}
+                        </label>
+                    ))}
+                </div>
+
+                <table className="w-full text-left">
+                    <thead className="text-gray-400 text-xs tracking-wider">
+                        <tr>
+                            <th className="p-2">类型</th>
+                            <th className="p-2 text-right">新增</th>
+                            <th className="p-2 text-right">覆盖</th>
+                            <th className="p-2 text-right">不变</th>
+                            <th className="p-2 text-right">删除</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-neutral-800 font-mono">
+                        {(Object.keys(RecordListLabelMap) as (keyof RestorePlan['counts'])[]).map(key => {
+                            const count = plan.counts[key];
+                            return (
+                                <tr key={key}>
+                                    <td className="p-2 font-sans text-gray-200">{RecordListLabelMap[key]}</td>
+                                    <td className="p-2 text-right text-green-400">{count.added}</td>
+                                    <td className="p-2 text-right text-gold-300">{count.updated}</td>
+                                    <td className="p-2 text-right text-gray-500">{count.unchanged}</td>
+                                    <td className="p-2 text-right text-red-400">{count.removed}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+
+                <div className="text-xs text-gray-500">
+                    {plan.settingsReplaced ? '汇率、截图预处理、模型、风险指标、规划假设与行情源设置将使用备份中的值。' : '保留本地设置，仅补充本地缺少的汇率。'}
+                </div>
+                {plan.warnings.map((w, i) => <div key={i} className="text-xs text-red-400">{w}</div>)}
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={() => setPending(null)} className="px-4 py-2 text-gray-400 hover:text-white">取消</button>
+                    <button onClick={apply} className="px-4 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl">
+                        确认恢复
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
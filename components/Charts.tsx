@@ -1,7 +1,8 @@
 import React from 'react';
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,9 +11,14 @@ import {
   PieChart,
   Pie,
   Cell,
-  Legend
+  Legend,
+  BarChart,
+  Bar,
+  TooltipPayloadEntry
 } from 'recharts';
-import { HistoryPoint, Asset, AssetCategory } from '../types';
+import { HistoryPoint, Asset, AssetCategory, FxSettings, PerformancePoint, DrawdownPoint, ProjectionPoint } from '../types';
+import { assetBaseAmount, currencySymbol } from '../services/fxService';
+import { maskAmount } from '../services/privacyService';
 
 // Gold palette
 const COLORS = ['#D4A532', '#AA8428', '#80631E', '#E6CB7D', '#554214', '#F9F1D8'];
@@ -30,15 +36,39 @@ const CategoryMap: Record<string, string> = {
 interface TrendChartProps {
   history: HistoryPoint[];
   type: 'netWorth' | 'return';
+  currency: string;
+  category?: string; // Drill down into a single AssetCategory
+  performance?: PerformancePoint[]; // Plotted as a time-weighted return line next to the total net worth
+  privacy?: boolean; // Hide amounts on the axis and in the tooltip
 }
 
-export const TrendChart: React.FC<TrendChartProps> = ({ history, type }) => {
-  const dataKey = type === 'netWorth' ? 'totalNetWorth' : 'totalReturnRate';
+export const TrendChart: React.FC<TrendChartProps> = ({ history, type, currency, category, performance, privacy = false }) => {
+  const showTwr = type === 'netWorth' && !category && !!performance;
+  // Snapshots written before per-category values existed are skipped when drilling down
+  const data: { date: string; value?: number; twr?: number }[] = showTwr
+    ? performance!.map(point => ({ date: point.date, value: point.netWorth, twr: point.twr }))
+    : history
+        .map(point => ({
+          date: point.date,
+          value: category
+            ? (type === 'netWorth' ? point.categoryValues?.[category] : point.categoryReturnRates?.[category])
+            : (type === 'netWorth' ? point.totalNetWorth : point.totalReturnRate)
+        }))
+        .filter(point => point.value !== undefined);
+  const seriesName = `${category ? `${CategoryMap[category] || category} · ` : ''}${type === 'netWorth' ? '总净值' : '收益率'}`;
+
+  if (data.length === 0) {
+    return (
+      <div className="h-64 w-full flex items-center justify-center text-gray-500 text-sm">
+        暂无历史快照，上传截图或录入持仓后将自动记录。
+      </div>
+    );
+  }
   
   return (
     <div className="h-64 w-full">
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={history} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <ComposedChart data={data} margin={{ top: 10, right: showTwr ? 0 : 30, left: 0, bottom: 0 }}>
           <defs>
             <linearGradient id="colorGold" x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor="#D4A532" stopOpacity={0.8}/>
@@ -53,27 +83,135 @@ export const TrendChart: React.FC<TrendChartProps> = ({ history, type }) => {
             tickFormatter={(value) => new Date(value).toLocaleDateString('zh-CN', {month: '2-digit', day: '2-digit'})}
           />
           <YAxis 
+            yAxisId="value"
             stroke="#666" 
             tick={{fontSize: 12}}
-            tickFormatter={(val) => type === 'netWorth' ? `${(val/10000).toFixed(1)}万` : `${val}%`}
+            tickFormatter={(val) => type === 'netWorth' ? maskAmount(`${(val/10000).toFixed(1)}万`, privacy) : `${val}%`}
           />
+          {showTwr && (
+            <YAxis
+              yAxisId="twr"
+              orientation="right"
+              stroke="#60a5fa"
+              tick={{fontSize: 12}}
+              tickFormatter={(val) => `${Number(val).toFixed(1)}%`}
+            />
+          )}
           <Tooltip 
             contentStyle={{ backgroundColor: '#1a1a1a', borderColor: '#D4A532', color: '#fff' }}
             itemStyle={{ color: '#D4A532' }}
-            formatter={(value: number) => [
-                type === 'netWorth' ? `¥${value.toLocaleString()}` : `${value.toFixed(2)}%`, 
-                type === 'netWorth' ? '总净值' : '收益率'
-            ]}
+            formatter={(value: number, _name: string, item: TooltipPayloadEntry) => item?.dataKey === 'twr'
+                ? [`${value.toFixed(2)}%`, '时间加权收益']
+                : [
+                    type === 'netWorth' ? `${currencySymbol(currency)}${maskAmount(value.toLocaleString(), privacy)}` : `${value.toFixed(2)}%`, 
+                    seriesName
+                  ]}
             labelFormatter={(label) => new Date(label).toLocaleDateString('zh-CN', {year: 'numeric', month: 'long', day: 'numeric'})}
           />
           <Area 
+            yAxisId="value"
             type="monotone" 
-            dataKey={dataKey} 
+            dataKey="value" 
             stroke="#D4A532" 
             fillOpacity={1} 
             fill="url(#colorGold)" 
           />
-        </AreaChart>
+          {showTwr && (
+            <Line yAxisId="twr" type="monotone" dataKey="twr" stroke="#60a5fa" strokeWidth={2} dot={false} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+interface DrawdownChartProps {
+  drawdowns: DrawdownPoint[];
+}
+
+export const DrawdownChart: React.FC<DrawdownChartProps> = ({ drawdowns }) => {
+  if (drawdowns.length < 2) {
+    return (
+      <div className="h-48 w-full flex items-center justify-center text-gray-500 text-sm">
+        至少需要两个净值快照才能计算回撤。
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-48 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={drawdowns} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <defs>
+            <linearGradient id="colorDrawdown" x1="0" y1="1" x2="0" y2="0">
+              <stop offset="5%" stopColor="#f87171" stopOpacity={0.6}/>
+              <stop offset="95%" stopColor="#f87171" stopOpacity={0}/>
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+          <XAxis
+            dataKey="date"
+            stroke="#666"
+            tick={{fontSize: 12}}
+            tickFormatter={(value) => new Date(value).toLocaleDateString('zh-CN', {month: '2-digit', day: '2-digit'})}
+          />
+          <YAxis stroke="#666" tick={{fontSize: 12}} tickFormatter={(val) => `${Number(val).toFixed(0)}%`} />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1a1a1a', borderColor: '#f87171', color: '#fff' }}
+            itemStyle={{ color: '#f87171' }}
+            formatter={(value: number) => [`${value.toFixed(2)}%`, '回撤']}
+            labelFormatter={(label) => new Date(label).toLocaleDateString('zh-CN', {year: 'numeric', month: 'long', day: 'numeric'})}
+          />
+          <Area type="monotone" dataKey="drawdown" stroke="#f87171" fillOpacity={1} fill="url(#colorDrawdown)" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+interface FanChartProps {
+  points: ProjectionPoint[];
+  target: number; // Drawn as a flat line
+  currency: string;
+  privacy?: boolean;
+}
+
+// Percentile bands of a projection: 10–90 faint, 25–75 stronger, median as a line
+export const FanChart: React.FC<FanChartProps> = ({ points, target, currency, privacy = false }) => {
+  const data = points.map(p => ({ date: p.date, outer: [p.p10, p.p90], inner: [p.p25, p.p75], median: p.p50, target }));
+  const symbol = currencySymbol(currency);
+  const format = (value: number) => `${symbol}${maskAmount(value.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}`;
+
+  return (
+    <div className="h-64 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+          <XAxis
+            dataKey="date"
+            stroke="#666"
+            tick={{fontSize: 12}}
+            tickFormatter={(value) => new Date(value).toLocaleDateString('zh-CN', {year: 'numeric', month: '2-digit'})}
+          />
+          <YAxis
+            stroke="#666"
+            tick={{fontSize: 12}}
+            tickFormatter={(val) => maskAmount(`${(val/10000).toFixed(0)}万`, privacy)}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#1a1a1a', borderColor: '#D4A532', color: '#fff' }}
+            itemStyle={{ color: '#D4A532' }}
+            formatter={(value: number | number[], name: string) => [
+              Array.isArray(value) ? `${format(value[0])} ~ ${format(value[1])}` : format(value),
+              name
+            ]}
+            labelFormatter={(label) => new Date(label).toLocaleDateString('zh-CN', {year: 'numeric', month: 'long'})}
+          />
+          <Area type="monotone" dataKey="outer" name="10%–90%" stroke="none" fill="#D4A532" fillOpacity={0.15} />
+          <Area type="monotone" dataKey="inner" name="25%–75%" stroke="none" fill="#D4A532" fillOpacity={0.3} />
+          <Line type="monotone" dataKey="median" name="中位数" stroke="#D4A532" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="target" name="目标" stroke="#60a5fa" strokeDasharray="4 4" dot={false} />
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
@@ -81,22 +219,26 @@ export const TrendChart: React.FC<TrendChartProps> = ({ history, type }) => {
 
 interface AllocationChartProps {
   assets: Asset[];
+  fx: FxSettings;
+  privacy?: boolean; // Tooltips show the category's share instead of its value
 }
 
-export const AllocationChart: React.FC<AllocationChartProps> = ({ assets }) => {
-  // Aggregate by category
+export const AllocationChart: React.FC<AllocationChartProps> = ({ assets, fx, privacy = false }) => {
+  // Aggregate by category, in base currency
   const data = assets.reduce((acc, asset) => {
     // Translate category name for display
     const categoryName = CategoryMap[asset.category] || asset.category;
+    const value = assetBaseAmount(asset, fx);
     
     const existing = acc.find(i => i.name === categoryName);
     if (existing) {
-      existing.value += asset.amount;
+      existing.value += value;
     } else {
-      acc.push({ name: categoryName, value: asset.amount });
+      acc.push({ name: categoryName, value });
     }
     return acc;
   }, [] as { name: string; value: number }[]);
+  const total = data.reduce((sum, slice) => sum + slice.value, 0);
 
   return (
     <div className="h-64 w-full">
@@ -117,7 +259,9 @@ export const AllocationChart: React.FC<AllocationChartProps> = ({ assets }) => {
           </Pie>
           <Tooltip 
              contentStyle={{ backgroundColor: '#1a1a1a', borderColor: '#D4A532', color: '#fff' }}
-             formatter={(value: number) => `¥${value.toLocaleString()}`}
+             formatter={(value: number) => privacy
+                ? `${total > 0 ? (value / total * 100).toFixed(1) : '0.0'}%`
+                : `${currencySymbol(fx.baseCurrency)}${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
           />
           <Legend 
             verticalAlign="bottom" 
@@ -128,4 +272,27 @@ export const AllocationChart: React.FC<AllocationChartProps> = ({ assets }) => {
       </ResponsiveContainer>
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface AllocationComparisonChartProps {
+  slices: { name: string; current: number; target: number }[]; // Weights in percent
+}
+
+export const AllocationComparisonChart: React.FC<AllocationComparisonChartProps> = ({ slices }) => (
+  <div className="h-64 w-full">
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={slices} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+        <XAxis dataKey="name" stroke="#666" tick={{fontSize: 12}} />
+        <YAxis stroke="#666" tick={{fontSize: 12}} tickFormatter={(val) => `${val}%`} />
+        <Tooltip
+          contentStyle={{ backgroundColor: '#1a1a1a', borderColor: '#D4A532', color: '#fff' }}
+          formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+        />
+        <Legend verticalAlign="bottom" height={36} iconType="circle" />
+        <Bar dataKey="current" name="当前" fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+        <Bar dataKey="target" name="目标" fill={COLORS[3]} radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
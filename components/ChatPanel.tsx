@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Plus, Send, Trash2 } from './IconComponents';
+import { ChatThread } from '../types';
+
+interface ChatPanelProps {
+  threads: ChatThread[]; // This portfolio's threads, most recent first
+  activeThreadId: string | null; // Null starts a new thread on the next question
+  isStreaming: boolean;
+  onSelectThread: (id: string | null) => void;
+  onSend: (threadId: string | null, text: string) => void;
+  onDeleteThread: (id: string) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+const STARTER_QUESTIONS = ['为什么建议调整当前配置？', '如果把 5 万现金转入债券，组合会怎样变化？', '哪只持仓对组合波动影响最大？'];
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ threads, activeThreadId, isStreaming, onSelectThread, onSend, onDeleteThread }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const thread = threads.find(t => t.id === activeThreadId);
+  const messages = thread?.messages || [];
+  const lastContent = messages[messages.length - 1]?.content;
+
+  // Follow the reply as it streams in
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [messages.length, lastContent]);
+
+  const send = (text: string) => {
+    if (!text.trim() || isStreaming) return;
+    onSend(thread ? thread.id : null, text.trim());
+    setDraft('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      send(draft);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+            <h3 className="text-xl font-bold text-white flex items-center">
+                <MessageSquare size={20} className="mr-2 text-gold-400" /> 追问顾问
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+                <select
+                    value={thread?.id || ''}
+                    onChange={(e) => onSelectThread(e.target.value || null)}
+                    className={inputClass}
+                >
+                    <option value="">新对话</option>
+                    {threads.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                </select>
+                <button onClick={() => onSelectThread(null)} className="p-1 text-gray-500 hover:text-gold-400" title="新对话">
+                    <Plus size={16} />
+                </button>
+                {thread && (
+                    <button onClick={() => onDeleteThread(thread.id)} className="p-1 text-gray-500 hover:text-red-400" title="删除对话">
+                        <Trash2 size={16} />
+                    </button>
+                )}
+            </div>
+        </div>
+
+        <div ref={scrollRef} className="h-80 overflow-y-auto space-y-3 pr-1">
+            {messages.length === 0 ? (
+                <div className="h-full flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+                    <p>基于当前持仓、最近一次分析报告和净值走势回答你的问题。</p>
+                    {STARTER_QUESTIONS.map(q => (
+                        <button key={q} onClick={() => send(q)} className="text-gold-400 hover:text-gold-300">{q}</button>
+                    ))}
+                </div>
+            ) : messages.map(m => (
+                <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div
+                        className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm leading-relaxed whitespace-pre-line ${
+                            m.role === 'user' ? 'bg-gold-600/20 text-gold-100' : 'bg-obsidian-900 text-gray-200'
+                        }`}
+                    >
+                        {m.content || (m.failed ? '' : <span className="animate-pulse text-gray-500">思考中...</span>)}
+                        {m.failed && <div className="text-xs text-red-400 mt-1">回复失败，请重试</div>}
+                    </div>
+                </div>
+            ))}
+        </div>
+
+        <div className="flex items-end gap-3">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                rows={2}
+                placeholder="输入问题，Enter 发送，Shift+Enter 换行"
+                className={`${inputClass} flex-grow resize-none text-sm`}
+            />
+            <button
+                onClick={() => send(draft)}
+                disabled={isStreaming || !draft.trim()}
+                className="flex items-center px-4 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl text-sm disabled:opacity-50"
+            >
+                <Send size={16} className="mr-1" /> 发送
+            </button>
+        </div>
+    </div>
+  );
+};
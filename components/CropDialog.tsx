@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { CropRect } from '../types';
+
+interface CropDialogProps {
+  files: File[];
+  defaultCrop: CropRect;
+  onConfirm: (crops: CropRect[]) => void;
+  onCancel: () => void;
+}
+
+const EDGES: { key: keyof CropRect; label: string }[] = [
+  { key: 'top', label: '顶部' },
+  { key: 'bottom', label: '底部' },
+  { key: 'left', label: '左侧' },
+  { key: 'right', label: '右侧' }
+];
+
+// Opposite edges may not overlap; keep at least 10% of the image
+const MAX_TOTAL_CROP = 0.9;
+
+export const CropDialog: React.FC<CropDialogProps> = ({ files, defaultCrop, onConfirm, onCancel }) => {
+  const [crops, setCrops] = useState<CropRect[]>(() => files.map(() => defaultCrop));
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    const created = files.map(f => URL.createObjectURL(f));
+    setUrls(created);
+    return () => created.forEach(url => URL.revokeObjectURL(url));
+  }, [files]);
+
+  const updateCrop = (index: number, key: keyof CropRect, percent: number) => {
+    setCrops(prev => prev.map((crop, i) => {
+      if (i !== index) return crop;
+      const opposite = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' }[key] as keyof CropRect;
+      const value = Math.min(percent / 100, MAX_TOTAL_CROP - crop[opposite]);
+      return { ...crop, [key]: Math.max(value, 0) };
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-start justify-center overflow-y-auto p-4">
+      <div className="glass-panel bg-obsidian-900 rounded-2xl w-full max-w-5xl my-12 p-6 space-y-6">
+        <div>
+            <h2 className="text-2xl font-bold text-white">裁剪截图</h2>
+            <p className="text-sm text-gray-500 mt-1">裁掉状态栏、广告横幅等无关区域可提高识别准确率。</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {files.map((file, index) => {
+                const crop = crops[index];
+                return (
+                    <div key={`${file.name}-${index}`} className="space-y-3">
+                        <div className="bg-black rounded-lg overflow-hidden flex justify-center">
+                            {/* Shrinks to the whole scaled-down image, so the overlay's percentages match it */}
+                            <div className="relative max-w-full">
+                                {urls[index] && <img src={urls[index]} alt={file.name} className="block max-w-full max-h-96" />}
+                                {/* Shaded regions are removed before extraction */}
+                                <div className="absolute inset-x-0 top-0 bg-red-900/60" style={{ height: `${crop.top * 100}%` }} />
+                                <div className="absolute inset-x-0 bottom-0 bg-red-900/60" style={{ height: `${crop.bottom * 100}%` }} />
+                                <div className="absolute inset-y-0 left-0 bg-red-900/60" style={{ width: `${crop.left * 100}%` }} />
+                                <div className="absolute inset-y-0 right-0 bg-red-900/60" style={{ width: `${crop.right * 100}%` }} />
+                            </div>
+                        </div>
+                        <div className="text-xs text-gray-400 truncate">{file.name}</div>
+                        {EDGES.map(edge => (
+                            <label key={edge.key} className="flex items-center text-xs text-gray-400 gap-2">
+                                <span className="w-8">{edge.label}</span>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={50}
+                                    step={0.5}
+                                    value={crop[edge.key] * 100}
+                                    onChange={(e) => updateCrop(index, edge.key, Number(e.target.value))}
+                                    className="flex-grow accent-yellow-600"
+                                />
+                                <span className="w-10 text-right font-mono">{(crop[edge.key] * 100).toFixed(1)}%</span>
+                            </label>
+                        ))}
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="flex justify-end gap-4">
+            <button onClick={onCancel} className="px-6 py-2 rounded-xl border border-neutral-700 text-gray-300 hover:text-white">
+                取消
+            </button>
+            <button
+                onClick={() => onConfirm(crops)}
+                className="px-6 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl"
+            >
+                开始识别 {files.length} 张
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
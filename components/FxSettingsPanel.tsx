@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, FileUp } from './IconComponents';
+import { FxSettings } from '../types';
+import { normalizeCurrency, rebaseFxSettings, parseFxRatesCsv } from '../services/fxService';
+
+interface FxSettingsPanelProps {
+  fx: FxSettings;
+  missingCurrencies: string[];
+  onChange: (fx: FxSettings) => void;
+}
+
+export const FxSettingsPanel: React.FC<FxSettingsPanelProps> = ({ fx, missingCurrencies, onChange }) => {
+  const [newCode, setNewCode] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const rateCodes = Object.keys(fx.rates).filter(code => code !== fx.baseCurrency).sort();
+
+  const updateRate = (code: string, value: string) => {
+    const rate = Number(value);
+    if (!isFinite(rate) || rate <= 0) return;
+    onChange({ ...fx, rates: { ...fx.rates, [code]: rate } });
+  };
+
+  const removeRate = (code: string) => {
+    const rates = { ...fx.rates };
+    delete rates[code];
+    onChange({ ...fx, rates });
+  };
+
+  const addRate = () => {
+    const code = normalizeCurrency(newCode);
+    const rate = Number(newRate);
+    if (!newCode.trim() || !isFinite(rate) || rate <= 0) return;
+    onChange({ ...fx, rates: { ...fx.rates, [code]: rate } });
+    setNewCode('');
+    setNewRate('');
+  };
+
+  const handleCsvImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const { rates, errors } = parseFxRatesCsv(await file.text());
+    onChange({ ...fx, rates: { ...fx.rates, ...rates, [fx.baseCurrency]: 1 } });
+    setImportMessage(`已导入 ${Object.keys(rates).length} 条汇率${errors.length ? `，${errors.length} 行被忽略` : ''}。`);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+            <h3 className="text-xl font-bold text-white">汇率设置</h3>
+            <label className="flex items-center text-sm text-gray-400">
+                本位币
+                <input
+                    defaultValue={fx.baseCurrency}
+                    key={fx.baseCurrency}
+                    onBlur={(e) => onChange(rebaseFxSettings(fx, e.target.value))}
+                    className="ml-3 w-24 bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-white font-mono uppercase"
+                />
+            </label>
+        </div>
+
+        {missingCurrencies.length > 0 && (
+            <div className="text-sm text-red-400">
+                缺少以下货币的汇率，相关资产将按原币金额计入：{missingCurrencies.join(', ')}
+            </div>
+        )}
+
+        <table className="w-full text-left">
+            <thead className="text-gray-400 text-xs tracking-wider">
+                <tr>
+                    <th className="py-2">货币</th>
+                    <th className="py-2 text-right">1 单位 = {fx.baseCurrency}</th>
+                    <th className="py-2"></th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+                {rateCodes.map(code => (
+                    <tr key={code}>
+                        <td className="py-2 font-mono text-white">{code}</td>
+                        <td className="py-2 text-right">
+                            <input
+                                type="number"
+                                step="any"
+                                defaultValue={fx.rates[code]}
+                                key={`${fx.baseCurrency}-${code}-${fx.rates[code]}`}
+                                onBlur={(e) => updateRate(code, e.target.value)}
+                                className="w-32 bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-right font-mono text-gray-200"
+                            />
+                        </td>
+                        <td className="py-2 text-right">
+                            <button onClick={() => removeRate(code)} className="text-gray-500 hover:text-red-400">
+                                <Trash2 size={16} />
+                            </button>
+                        </td>
+                    </tr>
+                ))}
+                <tr>
+                    <td className="py-2">
+                        <input
+                            value={newCode}
+                            onChange={(e) => setNewCode(e.target.value)}
+                            placeholder="如 USD"
+                            className="w-24 bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 font-mono text-white uppercase"
+                        />
+                    </td>
+                    <td className="py-2 text-right">
+                        <input
+                            type="number"
+                            step="any"
+                            value={newRate}
+                            onChange={(e) => setNewRate(e.target.value)}
+                            placeholder="汇率"
+                            className="w-32 bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-right font-mono text-gray-200"
+                        />
+                    </td>
+                    <td className="py-2 text-right">
+                        <button onClick={addRate} className="text-gold-400 hover:text-gold-300">
+                            <Plus size={16} />
+                        </button>
+                    </td>
+                </tr>
+            </tbody>
+        </table>
+
+        <div className="flex items-center gap-4">
+            <input type="file" accept=".csv,text/csv" onChange={handleCsvImport} className="hidden" id="fx-csv-import" />
+            <label
+                htmlFor="fx-csv-import"
+                className="cursor-pointer flex items-center px-4 py-2 border border-gold-600/50 rounded-full text-sm text-gold-300 hover:bg-gold-600/20 transition-all"
+            >
+                <FileUp size={16} className="mr-2" /> 从 CSV 导入
+            </label>
+            <span className="text-xs text-gray-500">格式：货币,汇率（每行一条）</span>
+        </div>
+        {importMessage && <div className="text-sm text-gray-400">{importMessage}</div>}
+    </div>
+  );
+};
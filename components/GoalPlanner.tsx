@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Trash2 } from './IconComponents';
+import { FanChart } from './Charts';
+import { Asset, AssetCategory, CategoryAssumption, FxSettings, Goal, GoalProjection, PlanningSettings } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { currencySymbol } from '../services/fxService';
+import { SIMULATION_OPTIONS, createGoal, projectGoal, validateGoal } from '../services/planningService';
+import { maskAmount } from '../services/privacyService';
+
+interface GoalPlannerProps {
+  assets: Asset[];
+  fx: FxSettings;
+  goals: Goal[]; // For this portfolio view
+  portfolioId: string;
+  settings: PlanningSettings;
+  privacy: boolean;
+  onAdd: (goal: Goal) => void;
+  onRemove: (id: string) => void;
+  onSettingsChange: (settings: PlanningSettings) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+const probabilityTone = (probability: number) =>
+  probability >= 75 ? 'text-green-400' : probability >= 50 ? 'text-gold-300' : 'text-red-400';
+
+export const GoalPlanner: React.FC<GoalPlannerProps> = ({ assets, fx, goals, portfolioId, settings, privacy, onAdd, onRemove, onSettingsChange }) => {
+  const [form, setForm] = useState({ name: '', targetAmount: '', targetDate: '', monthlyContribution: '0' });
+
+  const symbol = currencySymbol(fx.baseCurrency);
+  const formatAmount = (value: number) => `${symbol}${maskAmount(value.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}`;
+  const draft = {
+    name: form.name,
+    targetAmount: Number(form.targetAmount),
+    targetDate: form.targetDate,
+    monthlyContribution: Number(form.monthlyContribution)
+  };
+  const error = form.name || form.targetAmount || form.targetDate ? validateGoal(draft) : null;
+
+  // Thousands of paths per goal, so only rerun when an input actually changes
+  const projections: Record<string, GoalProjection> = useMemo(
+    () => Object.fromEntries(goals.map(g => [g.id, projectGoal(assets, fx, g, settings)])),
+    [assets, fx, goals, settings]
+  );
+
+  const add = () => {
+    if (validateGoal(draft)) return;
+    onAdd(createGoal(portfolioId, draft.name, draft.targetAmount, draft.targetDate, draft.monthlyContribution));
+    setForm({ name: '', targetAmount: '', targetDate: '', monthlyContribution: '0' });
+  };
+
+  const setAssumption = (category: AssetCategory, patch: Partial<CategoryAssumption>) =>
+    onSettingsChange({
+      ...settings,
+      assumptions: { ...settings.assumptions, [category]: { ...settings.assumptions[category], ...patch } }
+    });
+
+  return (
+    <div className="space-y-6">
+        <div className="glass-panel p-6 rounded-2xl space-y-4">
+            <h3 className="text-xl font-bold text-white">财务目标</h3>
+            <p className="text-sm text-gray-500">
+                以当前持仓为起点，按各类别的收益与波动假设做蒙特卡洛模拟，估算到期达成目标的概率。结果仅供参考，不代表未来收益。
+            </p>
+            <div className="flex flex-wrap items-end gap-3 text-sm text-gray-400">
+                <label className="flex flex-col gap-1">
+                    名称
+                    <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="如：退休、子女教育" className={`${inputClass} w-44`} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    目标金额 {fx.baseCurrency}
+                    <input type="number" min={0} step="any" value={form.targetAmount} onChange={(e) => setForm({ ...form, targetAmount: e.target.value })} className={`${inputClass} w-36 font-mono`} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    目标日期
+                    <input type="date" value={form.targetDate} onChange={(e) => setForm({ ...form, targetDate: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    每月投入 {fx.baseCurrency}
+                    <input type="number" min={0} step="any" value={form.monthlyContribution} onChange={(e) => setForm({ ...form, monthlyContribution: e.target.value })} className={`${inputClass} w-32 font-mono`} />
+                </label>
+                <button
+                    onClick={add}
+                    disabled={!!validateGoal(draft)}
+                    className="flex items-center px-4 py-1.5 border border-gold-600/50 rounded-full text-gold-300 hover:bg-gold-600/20 disabled:opacity-50"
+                >
+                    <Plus size={14} className="mr-1" /> 添加目标
+                </button>
+            </div>
+            {error && <div className="text-xs text-red-400">{error}</div>}
+        </div>
+
+        {goals.map(goal => {
+            const projection = projections[goal.id];
+            const final = projection.points[projection.points.length - 1];
+            return (
+                <div key={goal.id} className="glass-panel p-6 rounded-2xl space-y-4">
+                    <div className="flex flex-wrap justify-between items-start gap-4">
+                        <div>
+                            <h3 className="text-lg font-bold text-white">{goal.name}</h3>
+                            <div className="text-xs text-gray-400 mt-1">
+                                {goal.targetDate} 达到 {formatAmount(goal.targetAmount)} · 每月投入 {formatAmount(goal.monthlyContribution)}
+                            </div>
+                        </div>
+                        <div className="flex items-start gap-4">
+                            <div className="text-right">
+                                <div className={`text-3xl font-bold font-mono ${probabilityTone(projection.probability)}`}>
+                                    {projection.probability.toFixed(0)}%
+                                </div>
+                                <div className="text-xs text-gray-500">达成概率</div>
+                            </div>
+                            <button onClick={() => onRemove(goal.id)} className="text-gray-500 hover:text-red-400">
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    </div>
+                    <FanChart points={projection.points} target={goal.targetAmount} currency={fx.baseCurrency} privacy={privacy} />
+                    <div className="text-xs text-gray-400">
+                        到期预计：悲观（10%）{formatAmount(final.p10)} · 中位数 {formatAmount(final.p50)} · 乐观（90%）{formatAmount(final.p90)}
+                    </div>
+                </div>
+            );
+        })}
+
+        <div className="glass-panel p-6 rounded-2xl space-y-4">
+            <h3 className="text-lg font-bold text-white">模拟假设</h3>
+            <table className="w-full text-sm">
+                <thead className="text-gray-400 text-xs">
+                    <tr>
+                        <th className="py-2 text-left font-normal">类别</th>
+                        <th className="py-2 text-right font-normal">年化收益 %</th>
+                        <th className="py-2 text-right font-normal">年化波动 %</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-800">
+                    {Object.values(AssetCategory).map(c => (
+                        <tr key={c}>
+                            <td className="py-2 text-gray-300">{CategoryDisplayMap[c]}</td>
+                            <td className="py-2 text-right">
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    value={settings.assumptions[c].expectedReturn}
+                                    onChange={(e) => setAssumption(c, { expectedReturn: Number(e.target.value) || 0 })}
+                                    className={`${inputClass} w-20 text-right font-mono`}
+                                />
+                            </td>
+                            <td className="py-2 text-right">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.1"
+                                    value={settings.assumptions[c].volatility}
+                                    onChange={(e) => setAssumption(c, { volatility: Math.max(0, Number(e.target.value) || 0) })}
+                                    className={`${inputClass} w-20 text-right font-mono`}
+                                />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-400">
+                <label className="flex items-center gap-2">
+                    模拟次数
+                    <select value={settings.simulations} onChange={(e) => onSettingsChange({ ...settings, simulations: Number(e.target.value) })} className={inputClass}>
+                        {SIMULATION_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    随机种子
+                    <input
+                        type="number"
+                        step={1}
+                        value={settings.seed}
+                        onChange={(e) => onSettingsChange({ ...settings, seed: Math.round(Number(e.target.value)) || 0 })}
+                        className={`${inputClass} w-24 font-mono`}
+                    />
+                </label>
+                <span className="text-xs text-gray-500 self-center">相同的种子与输入总是得到相同的结果；各类别按相互独立模拟。</span>
+            </div>
+        </div>
+    </div>
+  );
+};
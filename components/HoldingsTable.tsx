@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Pencil, Trash2, Check, X, ImageIcon } from './IconComponents';
+import { ScreenshotSourceDialog } from './ScreenshotSourceDialog';
+import { Asset, AssetCategory, AssetDraft, Portfolio } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { assetToDraft, assetUnrealizedPnl, validateDraft } from '../services/assetService';
+import { assetPortfolioId, portfolioName } from '../services/portfolioService';
+import { maskAmount } from '../services/privacyService';
+import { ValuationKindLabelMap } from '../services/priceService';
+
+interface HoldingsTableProps {
+  assets: Asset[];
+  portfolios: Portfolio[];
+  showPortfolio: boolean;
+  privacy: boolean; // Mask amounts, keeping return rates visible
+  onUpdate: (id: string, draft: AssetDraft) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+export const HoldingsTable: React.FC<HoldingsTableProps> = ({ assets, portfolios, showPortfolio, privacy, onUpdate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AssetDraft | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [sourceAsset, setSourceAsset] = useState<Asset | null>(null);
+
+  // Selection can outlive rows removed elsewhere (undo, portfolio switch)
+  const selected = selectedIds.filter(id => assets.some(a => a.id === id));
+  const allSelected = assets.length > 0 && selected.length === assets.length;
+  const error = draft ? validateDraft(draft) : null;
+
+  const startEdit = (asset: Asset) => {
+    setEditingId(asset.id);
+    setDraft(assetToDraft(asset));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveEdit = () => {
+    if (!editingId || !draft || error) return;
+    onUpdate(editingId, draft);
+    cancelEdit();
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(selected.includes(id) ? selected.filter(x => x !== id) : [...selected, id]);
+
+  const deleteSelected = () => {
+    onDelete(selected);
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl overflow-hidden">
+        {selected.length > 0 && (
+            <div className="flex items-center justify-between px-4 py-2 bg-obsidian-900 border-b border-neutral-800 text-sm">
+                <span className="text-gray-400">已选择 {selected.length} 项</span>
+                <button onClick={deleteSelected} className="flex items-center text-red-400 hover:text-red-300">
+                    <Trash2 size={14} className="mr-1" /> 删除所选
+                </button>
+            </div>
+        )}
+        <div className="overflow-x-auto">
+            <table className="w-full text-left">
+                <thead className="bg-obsidian-900 text-gray-400 text-xs tracking-wider">
+                    <tr>
+                        <th className="p-4 w-8">
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={() => setSelectedIds(allSelected ? [] : assets.map(a => a.id))}
+                                className="accent-yellow-600"
+                            />
+                        </th>
+                        <th className="p-4">资产名称</th>
+                        <th className="p-4">类别</th>
+                        <th className="p-4 text-right">金额</th>
+                        <th className="p-4 text-right">持仓盈亏</th>
+                        <th className="p-4 text-right">更新时间</th>
+                        <th className="p-4"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-800">
+                    {assets.length === 0 ? (
+                        <tr>
+                            <td colSpan={7} className="p-8 text-center text-gray-500">
+                                暂无持仓信息，请上传投资 APP 截图或手动添加。
+                            </td>
+                        </tr>
+                    ) : assets.map((asset) => editingId === asset.id && draft ? (
+                        <tr key={asset.id} className="bg-neutral-800/50">
+                            <td className="p-4"></td>
+                            <td className="p-4">
+                                <input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    className={`${inputClass} w-full text-white`}
+                                />
+                                {error && <div className="text-xs text-red-400 mt-1">{error}</div>}
+                            </td>
+                            <td className="p-4">
+                                <select
+                                    value={draft.category}
+                                    onChange={(e) => setDraft({ ...draft, category: e.target.value as AssetCategory })}
+                                    className={inputClass}
+                                >
+                                    {Object.values(AssetCategory).map(c => (
+                                        <option key={c} value={c}>{CategoryDisplayMap[c]}</option>
+                                    ))}
+                                </select>
+                            </td>
+                            <td className="p-4 text-right whitespace-nowrap">
+                                <input
+                                    type="number"
+                                    step="any"
+                                    value={draft.amount}
+                                    onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) })}
+                                    className={`${inputClass} w-32 text-right font-mono`}
+                                />
+                                <input
+                                    value={draft.currency}
+                                    onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+                                    className={`${inputClass} w-16 ml-1 font-mono uppercase`}
+                                />
+                                <div className="mt-1">
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        value={draft.quantity ?? ''}
+                                        onChange={(e) => setDraft({ ...draft, quantity: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        placeholder="数量"
+                                        className={`${inputClass} w-24 text-right font-mono text-xs`}
+                                    />
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        value={draft.costBasis ?? ''}
+                                        onChange={(e) => setDraft({ ...draft, costBasis: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        placeholder="总成本"
+                                        className={`${inputClass} w-24 ml-1 text-right font-mono text-xs`}
+                                    />
+                                </div>
+                            </td>
+                            <td className="p-4 text-right">
+                                <input
+                                    type="number"
+                                    step="any"
+                                    value={draft.returnRate}
+                                    onChange={(e) => setDraft({ ...draft, returnRate: Number(e.target.value) })}
+                                    className={`${inputClass} w-20 text-right font-mono`}
+                                />
+                            </td>
+                            <td className="p-4"></td>
+                            <td className="p-4 text-right whitespace-nowrap">
+                                <button onClick={saveEdit} disabled={!!error} className="p-1 text-green-400 hover:text-green-300 disabled:opacity-30" title="保存">
+                                    <Check size={16} />
+                                </button>
+                                <button onClick={cancelEdit} className="p-1 text-gray-500 hover:text-white" title="取消">
+                                    <X size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    ) : (
+                        <tr key={asset.id} className="hover:bg-neutral-800/50 transition-colors group">
+                            <td className="p-4">
+                                <input
+                                    type="checkbox"
+                                    checked={selected.includes(asset.id)}
+                                    onChange={() => toggleSelected(asset.id)}
+                                    className="accent-yellow-600"
+                                />
+                            </td>
+                            <td className="p-4 font-medium text-white">
+                                {asset.name}
+                                {(asset.code || asset.broker || showPortfolio) && (
+                                    <div className="text-xs text-gray-500 font-mono mt-1">
+                                        {[
+                                          asset.code,
+                                          asset.exchange,
+                                          asset.broker,
+                                          showPortfolio ? portfolioName(portfolios, assetPortfolioId(asset)) : undefined
+                                        ].filter(Boolean).join(' · ')}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="p-4">
+                                <span className="px-2 py-1 rounded text-xs border border-neutral-700 text-gold-200 bg-obsidian-900">
+                                    {CategoryDisplayMap[asset.category] || asset.category}
+                                </span>
+                            </td>
+                            <td className="p-4 text-right font-mono text-gray-200">
+                                {maskAmount(asset.amount.toLocaleString(), privacy)} <span className="text-xs text-gray-500">{asset.currency}</span>
+                                {asset.quantity !== undefined && (
+                                    <div className="text-xs text-gray-500 mt-1">
+                                        {maskAmount(asset.quantity.toLocaleString(), privacy)} 份{asset.price !== undefined ? ` × ${asset.price.toLocaleString()}` : ''}
+                                    </div>
+                                )}
+                            </td>
+                            <td className={`p-4 text-right font-mono ${asset.returnRate >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {asset.returnRate > 0 ? '+' : ''}{asset.returnRate}%
+                                <div className="text-xs mt-1">
+                                    {assetUnrealizedPnl(asset) >= 0 ? '+' : ''}{maskAmount(assetUnrealizedPnl(asset).toLocaleString(undefined, { maximumFractionDigits: 2 }), privacy)}
+                                </div>
+                                {asset.dailyChange !== undefined && (
+                                    <div className={`text-xs mt-1 ${asset.dailyChange >= 0 ? 'text-green-500/70' : 'text-red-500/70'}`}>
+                                        当日 {asset.dailyChange >= 0 ? '+' : ''}{maskAmount(asset.dailyChange.toLocaleString(), privacy)}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="p-4 text-right text-xs text-gray-500">
+                                {new Date(asset.lastUpdated).toLocaleDateString('zh-CN')}
+                                <div
+                                    className={`mt-1 ${asset.valuation?.kind === 'market' ? 'text-blue-400' : ''}`}
+                                    title={asset.valuation?.source ? `来源：${asset.valuation.source}` : undefined}
+                                >
+                                    {asset.valuation ? ValuationKindLabelMap[asset.valuation.kind] : '手动录入'}
+                                </div>
+                            </td>
+                            <td className="p-4 text-right whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity">
+                                {asset.source && (
+                                    <button onClick={() => setSourceAsset(asset)} className="p-1 text-gray-500 hover:text-gold-400" title="查看来源截图">
+                                        <ImageIcon size={16} />
+                                    </button>
+                                )}
+                                <button onClick={() => startEdit(asset)} className="p-1 text-gray-500 hover:text-gold-400" title="编辑">
+                                    <Pencil size={16} />
+                                </button>
+                                <button onClick={() => onDelete([asset.id])} className="p-1 text-gray-500 hover:text-red-400" title="删除">
+                                    <Trash2 size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+        {sourceAsset && (
+            <ScreenshotSourceDialog asset={sourceAsset} portfolios={portfolios} onClose={() => setSourceAsset(null)} />
+        )}
+    </div>
+  );
+};
@@ -2,21 +2,59 @@ import React from 'react';
 import { 
   PieChart, 
   TrendingUp, 
+  TrendingDown,
   Upload, 
   Wallet, 
   LayoutDashboard, 
   List, 
   BrainCircuit,
-  ArrowRight
+  ArrowRight,
+  Settings,
+  Plus,
+  Trash2,
+  FileUp,
+  Check,
+  X,
+  Pencil,
+  Undo2,
+  MessageSquare,
+  Send,
+  Download,
+  ImageIcon,
+  Eye,
+  EyeOff,
+  Lock,
+  FlaskConical,
+  Target,
+  Bell
 } from 'lucide-react';
 
 export { 
   PieChart, 
   TrendingUp, 
+  TrendingDown,
   Upload, 
   Wallet, 
   LayoutDashboard, 
   List, 
   BrainCircuit,
-  ArrowRight
+  ArrowRight,
+  Settings,
+  Plus,
+  Trash2,
+  FileUp,
+  Check,
+  X,
+  Pencil,
+  Undo2,
+  MessageSquare,
+  Send,
+  Download,
+  ImageIcon,
+  Eye,
+  EyeOff,
+  Lock,
+  FlaskConical,
+  Target,
+  Bell
 };
\ No newline at end of file
@@ -0,0 +1,233 @@
+import React from 'react';
+import { Check, X, ArrowRight } from './IconComponents';
+import { Asset, AssetCategory, AssetDraft, AssetMatchMethod, ImportRow, ImportRowStatus, Portfolio } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { mapImportRow } from '../services/importService';
+import { validateDraft } from '../services/assetService';
+
+interface ImportReviewProps {
+  rows: ImportRow[];
+  assets: Asset[]; // Holdings of the selected portfolio
+  portfolios: Portfolio[];
+  portfolioId: string;
+  onPortfolioChange: (portfolioId: string) => void;
+  onChange: (rows: ImportRow[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const StatusLabel: Record<ImportRowStatus, { text: string; className: string }> = {
+  new: { text: '新增', className: 'border-green-600 text-green-400' },
+  update: { text: '更新', className: 'border-gold-600 text-gold-300' },
+  unmatched: { text: '待匹配', className: 'border-red-600 text-red-400' }
+};
+
+const MatchMethodLabel: Record<AssetMatchMethod, string> = {
+  code: '代码',
+  alias: '别名',
+  exact: '名称',
+  fuzzy: '相似'
+};
+
+const NEW_ASSET_OPTION = '__new__';
+const UNMATCHED_OPTION = '__unmatched__';
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 disabled:opacity-50';
+
+export const ImportReview: React.FC<ImportReviewProps> = ({ rows, assets, portfolios, portfolioId, onPortfolioChange, onChange, onConfirm, onCancel }) => {
+  const updateRow = (key: string, updater: (row: ImportRow) => ImportRow) =>
+    onChange(rows.map(row => row.key === key ? updater(row) : row));
+
+  const updateDraft = (key: string, patch: Partial<AssetDraft>) =>
+    updateRow(key, row => ({ ...row, draft: { ...row.draft, ...patch } }));
+
+  const handleMapping = (key: string, value: string) => {
+    if (value === UNMATCHED_OPTION) return;
+    updateRow(key, row => mapImportRow(row, value === NEW_ASSET_OPTION ? undefined : value));
+  };
+
+  const acceptedCount = rows.filter(r => r.accepted && r.status !== 'unmatched' && !validateDraft(r.draft)).length;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-start justify-center overflow-y-auto p-4">
+      <div className="glass-panel bg-obsidian-900 rounded-2xl w-full max-w-6xl my-12 p-6 space-y-6">
+        <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-white">确认导入</h2>
+            <span className="text-sm text-gray-400">共识别 {rows.length} 条，将导入 {acceptedCount} 条</span>
+        </div>
+
+        <label className="flex items-center text-sm text-gray-400">
+            导入到账户
+            <select
+                value={portfolioId}
+                onChange={(e) => onPortfolioChange(e.target.value)}
+                className={`${inputClass} ml-3`}
+            >
+                {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <span className="ml-3 text-xs text-gray-500">切换账户会按该账户的持仓重新匹配</span>
+        </label>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-gray-400 text-xs tracking-wider">
+                <tr>
+                    <th className="p-2">状态</th>
+                    <th className="p-2">名称</th>
+                    <th className="p-2">匹配资产</th>
+                    <th className="p-2">类别</th>
+                    <th className="p-2 text-right">金额</th>
+                    <th className="p-2 text-right">收益率 %</th>
+                    <th className="p-2">货币</th>
+                    <th className="p-2 text-center">导入</th>
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+                {rows.map(row => {
+                    const target = assets.find(a => a.id === row.targetAssetId);
+                    const error = validateDraft(row.draft);
+                    const status = StatusLabel[row.status];
+                    const mappingValue = row.status === 'unmatched' ? UNMATCHED_OPTION : (row.targetAssetId || NEW_ASSET_OPTION);
+                    // Suggested matches first, then the rest of the holdings
+                    const options = [
+                      ...assets.filter(a => row.suggestedAssetIds.includes(a.id)),
+                      ...assets.filter(a => !row.suggestedAssetIds.includes(a.id))
+                    ];
+
+                    return (
+                        <tr key={row.key} className={row.accepted ? '' : 'opacity-40'}>
+                            <td className="p-2">
+                                <span className={`px-2 py-1 rounded text-xs border ${status.className}`}>{status.text}</span>
+                                {row.matchMethod && !row.manuallyMapped && (
+                                    <div className="text-xs text-gray-500 mt-1">
+                                        {MatchMethodLabel[row.matchMethod]} {Math.round((row.confidence || 0) * 100)}%
+                                    </div>
+                                )}
+                            </td>
+                            <td className="p-2">
+                                <input
+                                    value={row.draft.name}
+                                    onChange={(e) => updateDraft(row.key, { name: e.target.value })}
+                                    disabled={row.status === 'update'}
+                                    className={`${inputClass} w-40 text-white`}
+                                />
+                                <input
+                                    value={row.draft.code || ''}
+                                    onChange={(e) => updateDraft(row.key, { code: e.target.value || undefined })}
+                                    placeholder="代码"
+                                    className={`${inputClass} w-40 mt-1 text-xs font-mono block`}
+                                />
+                                {error && <div className="text-xs text-red-400 mt-1">{error}</div>}
+                                {row.warnings?.map((w, i) => (
+                                    <div key={i} className="text-xs text-yellow-500 mt-1">{w.message}</div>
+                                ))}
+                            </td>
+                            <td className="p-2">
+                                <select
+                                    value={mappingValue}
+                                    onChange={(e) => handleMapping(row.key, e.target.value)}
+                                    className={`${inputClass} w-44`}
+                                >
+                                    {row.status === 'unmatched' && <option value={UNMATCHED_OPTION}>请选择…</option>}
+                                    <option value={NEW_ASSET_OPTION}>作为新资产</option>
+                                    {options.map(a => (
+                                        <option key={a.id} value={a.id}>
+                                            {row.suggestedAssetIds.includes(a.id) ? '★ ' : ''}{a.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </td>
+                            <td className="p-2">
+                                <select
+                                    value={row.draft.category}
+                                    onChange={(e) => updateDraft(row.key, { category: e.target.value as AssetCategory })}
+                                    className={inputClass}
+                                >
+                                    {Object.values(AssetCategory).map(c => (
+                                        <option key={c} value={c}>{CategoryDisplayMap[c]}</option>
+                                    ))}
+                                </select>
+                            </td>
+                            <td className="p-2 text-right whitespace-nowrap">
+                                {target && (
+                                    <span className="text-xs text-gray-500 font-mono mr-2">
+                                        {target.amount.toLocaleString()} <ArrowRight size={10} className="inline" />
+                                    </span>
+                                )}
+                                <input
+                                    type="number"
+                                    step="any"
+                                    value={row.draft.amount}
+                                    onChange={(e) => updateDraft(row.key, { amount: Number(e.target.value) })}
+                                    className={`${inputClass} w-32 text-right font-mono`}
+                                />
+                                {(row.draft.quantity !== undefined || row.draft.costBasis !== undefined) && (
+                                    <div className="text-xs text-gray-500 font-mono mt-1">
+                                        {[
+                                          row.draft.quantity !== undefined ? `${row.draft.quantity} 份` : undefined,
+                                          row.draft.costBasis !== undefined ? `成本 ${row.draft.costBasis.toFixed(2)}` : undefined
+                                        ].filter(Boolean).join(' · ')}
+                                    </div>
+                                )}
+                            </td>
+                            <td className="p-2 text-right whitespace-nowrap">
+                                {target && (
+                                    <span className="text-xs text-gray-500 font-mono mr-2">
+                                        {target.returnRate}% <ArrowRight size={10} className="inline" />
+                                    </span>
+                                )}
+                                <input
+                                    type="number"
+                                    step="any"
+                                    value={row.draft.returnRate}
+                                    onChange={(e) => updateDraft(row.key, { returnRate: Number(e.target.value) })}
+                                    className={`${inputClass} w-20 text-right font-mono`}
+                                />
+                            </td>
+                            <td className="p-2">
+                                <input
+                                    value={row.draft.currency}
+                                    onChange={(e) => updateDraft(row.key, { currency: e.target.value.toUpperCase() })}
+                                    className={`${inputClass} w-16 font-mono uppercase`}
+                                />
+                            </td>
+                            <td className="p-2 text-center whitespace-nowrap">
+                                <button
+                                    onClick={() => updateRow(row.key, r => ({ ...r, accepted: true }))}
+                                    disabled={row.status === 'unmatched'}
+                                    className={`p-1 rounded ${row.accepted ? 'text-green-400' : 'text-gray-600 hover:text-green-400'} disabled:opacity-30`}
+                                    title="接受"
+                                >
+                                    <Check size={16} />
+                                </button>
+                                <button
+                                    onClick={() => updateRow(row.key, r => ({ ...r, accepted: false }))}
+                                    className={`p-1 rounded ${!row.accepted ? 'text-red-400' : 'text-gray-600 hover:text-red-400'}`}
+                                    title="拒绝"
+                                >
+                                    <X size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-4">
+            <button onClick={onCancel} className="px-6 py-2 rounded-xl border border-neutral-700 text-gray-300 hover:text-white">
+                放弃本次导入
+            </button>
+            <button
+                onClick={onConfirm}
+                disabled={acceptedCount === 0}
+                className="px-6 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl disabled:opacity-50"
+            >
+                确认导入 {acceptedCount} 条
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Lock } from './IconComponents';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>; // Resolves false for a wrong passphrase
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!await onUnlock(passphrase)) {
+        setError('密码错误。');
+        setIsUnlocking(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '解锁失败。');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-obsidian-950 text-gray-100 font-sans flex items-center justify-center p-4">
+        <form onSubmit={submit} className="glass-panel p-8 rounded-2xl space-y-4 w-full max-w-sm">
+            <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded bg-gradient-to-br from-gold-400 to-gold-700 flex items-center justify-center text-black">
+                    <Lock size={20} />
+                </div>
+                <div>
+                    <h2 className="text-xl font-bold text-white">财富管家已锁定</h2>
+                    <p className="text-xs text-gray-500">本地数据已加密，输入密码后解锁</p>
+                </div>
+            </div>
+            <input
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="密码"
+                className={`${inputClass} w-full py-2`}
+            />
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            <button
+                type="submit"
+                disabled={!passphrase || isUnlocking}
+                className="w-full px-4 py-2 bg-gradient-to-r from-gold-600 to-gold-400 text-black font-bold rounded-xl disabled:opacity-50"
+            >
+                {isUnlocking ? '解锁中...' : '解锁'}
+            </button>
+            <p className="text-xs text-gray-500">忘记密码将无法恢复数据，只能清除浏览器数据后从备份恢复。</p>
+        </form>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Bell, Check, Trash2 } from './IconComponents';
+import { AlertEvent } from '../types';
+import { AlertTriggerLabelMap } from '../services/alertService';
+
+interface NotificationCenterProps {
+  alerts: AlertEvent[]; // Newest first
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ alerts, onMarkAllRead, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const unread = alerts.filter(a => !a.read).length;
+
+  const toggle = () => {
+    // Opening the list counts as seeing what is in it
+    if (isOpen && unread > 0) onMarkAllRead();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="relative">
+        <button
+            onClick={toggle}
+            title="提醒"
+            className={`relative p-2 rounded-full border transition-all ${isOpen ? 'border-gold-500 text-gold-300' : 'border-neutral-800 text-gray-400 hover:text-white'}`}
+        >
+            <Bell size={16} />
+            {unread > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[18px] text-center">
+                    {unread > 99 ? '99+' : unread}
+                </span>
+            )}
+        </button>
+
+        {isOpen && (
+            <div className="absolute right-0 mt-2 w-96 glass-panel bg-obsidian-900 rounded-2xl p-4 space-y-3 shadow-xl">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold text-white">提醒</h3>
+                    <div className="flex items-center gap-3 text-xs">
+                        <button onClick={onMarkAllRead} disabled={unread === 0} className="flex items-center text-gray-400 hover:text-white disabled:opacity-30">
+                            <Check size={12} className="mr-1" /> 全部已读
+                        </button>
+                        <button onClick={onClear} disabled={alerts.length === 0} className="flex items-center text-gray-400 hover:text-red-400 disabled:opacity-30">
+                            <Trash2 size={12} className="mr-1" /> 清空
+                        </button>
+                    </div>
+                </div>
+                {alerts.length === 0 ? (
+                    <div className="text-sm text-gray-500 py-4 text-center">暂无提醒。可在设置中添加提醒规则。</div>
+                ) : (
+                    <div className="max-h-96 overflow-y-auto divide-y divide-neutral-800">
+                        {alerts.map(a => (
+                            <div key={a.id} className="py-2 text-sm">
+                                <div className={a.read ? 'text-gray-400' : 'text-white'}>
+                                    {!a.read && <span className="inline-block w-2 h-2 rounded-full bg-gold-500 mr-2" />}
+                                    {a.message}
+                                </div>
+                                <div className="text-xs text-gray-500 mt-1">
+                                    {new Date(a.createdAt).toLocaleString('zh-CN')} · {AlertTriggerLabelMap[a.trigger]}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from './IconComponents';
+import { Asset, DEFAULT_PORTFOLIO_ID, Portfolio } from '../types';
+import { assetPortfolioId, createPortfolio } from '../services/portfolioService';
+
+interface PortfolioSettingsPanelProps {
+  portfolios: Portfolio[];
+  assets: Asset[];
+  onChange: (portfolios: Portfolio[]) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+export const PortfolioSettingsPanel: React.FC<PortfolioSettingsPanelProps> = ({ portfolios, assets, onChange }) => {
+  const [newName, setNewName] = useState('');
+
+  const holdingCount = (id: string) => assets.filter(a => assetPortfolioId(a) === id).length;
+
+  const rename = (id: string, name: string) => {
+    if (!name.trim()) return;
+    onChange(portfolios.map(p => p.id === id ? { ...p, name: name.trim() } : p));
+  };
+
+  const add = () => {
+    if (!newName.trim()) return;
+    onChange([...portfolios, createPortfolio(newName)]);
+    setNewName('');
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">账户管理</h3>
+        <p className="text-sm text-gray-500">按券商或家庭成员区分持仓，例如“招商证券-本人”“支付宝基金-配偶”。</p>
+        <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-neutral-800">
+                {portfolios.map(p => {
+                    const count = holdingCount(p.id);
+                    // The default portfolio and portfolios with holdings cannot be removed
+                    const removable = p.id !== DEFAULT_PORTFOLIO_ID && count === 0;
+                    return (
+                        <tr key={p.id}>
+                            <td className="py-2">
+                                <input
+                                    defaultValue={p.name}
+                                    onBlur={(e) => rename(p.id, e.target.value)}
+                                    className={`${inputClass} w-56 text-white`}
+                                />
+                            </td>
+                            <td className="py-2 text-gray-500">{count} 项持仓</td>
+                            <td className="py-2 text-right">
+                                <button
+                                    onClick={() => onChange(portfolios.filter(x => x.id !== p.id))}
+                                    disabled={!removable}
+                                    title={removable ? '删除账户' : '默认账户或仍有持仓的账户不能删除'}
+                                    className="text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    );
+                })}
+                <tr>
+                    <td className="py-2">
+                        <input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="新账户名称"
+                            className={`${inputClass} w-56`}
+                        />
+                    </td>
+                    <td></td>
+                    <td className="py-2 text-right">
+                        <button onClick={add} className="text-gold-400 hover:text-gold-300">
+                            <Plus size={16} />
+                        </button>
+                    </td>
+                </tr>
+            </tbody>
+        </table>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { CropRect, PreprocessSettings } from '../types';
+
+interface PreprocessSettingsPanelProps {
+  settings: PreprocessSettings;
+  onChange: (settings: PreprocessSettings) => void;
+}
+
+const inputClass = 'w-24 bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-right font-mono text-gray-200';
+
+export const PreprocessSettingsPanel: React.FC<PreprocessSettingsPanelProps> = ({ settings, onChange }) => {
+  const updateNumber = (key: 'maxWidth' | 'tileHeight' | 'tileOverlap', value: string) => {
+    const n = Math.round(Number(value));
+    if (!isFinite(n) || n <= 0) return;
+    const next = { ...settings, [key]: n };
+    // Tiles must advance, so the overlap has to stay below the tile height
+    if (next.tileOverlap >= next.tileHeight) return;
+    onChange(next);
+  };
+
+  const updateCrop = (key: keyof CropRect, value: string) => {
+    const percent = Number(value);
+    if (!isFinite(percent) || percent < 0 || percent >= 50) return;
+    onChange({ ...settings, defaultCrop: { ...settings.defaultCrop, [key]: percent / 100 } });
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">截图预处理</h3>
+        <p className="text-sm text-gray-500">上传前在本地缩放、裁剪并将超长截图切分为有重叠的分块，减小上传体积并提高识别准确率。</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-400">
+            <label className="flex items-center justify-between">
+                最大宽度 (px)
+                <input type="number" defaultValue={settings.maxWidth} onBlur={(e) => updateNumber('maxWidth', e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center justify-between">
+                分块高度 (px)
+                <input type="number" defaultValue={settings.tileHeight} onBlur={(e) => updateNumber('tileHeight', e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center justify-between">
+                分块重叠 (px)
+                <input type="number" defaultValue={settings.tileOverlap} onBlur={(e) => updateNumber('tileOverlap', e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center justify-between">
+                默认裁掉顶部 (%)
+                <input type="number" step="0.5" defaultValue={settings.defaultCrop.top * 100} onBlur={(e) => updateCrop('top', e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center justify-between">
+                默认裁掉底部 (%)
+                <input type="number" step="0.5" defaultValue={settings.defaultCrop.bottom * 100} onBlur={(e) => updateCrop('bottom', e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-2">
+                <input
+                    type="checkbox"
+                    checked={settings.reviewCrop}
+                    onChange={(e) => onChange({ ...settings, reviewCrop: e.target.checked })}
+                    className="accent-yellow-600"
+                />
+                上传后先手动裁剪
+            </label>
+        </div>
+    </div>
+  );
+};
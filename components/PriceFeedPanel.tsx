@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Download, FileUp } from './IconComponents';
+import { Asset, PriceFeedSettings, PriceQuote } from '../types';
+import { createHttpQuoteProvider, isPriceable, parsePriceCsv, priceableCodes } from '../services/priceService';
+
+interface PriceFeedPanelProps {
+  assets: Asset[];
+  settings: PriceFeedSettings;
+  onSettingsChange: (settings: PriceFeedSettings) => void;
+  // Revalues the holdings and reports what changed
+  onApply: (quotes: PriceQuote[], source: string) => { updated: number; snapshots: number; unmatched: string[] };
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 font-mono';
+
+const buttonClass = 'cursor-pointer flex items-center px-4 py-2 border border-gold-600/50 rounded-full text-sm text-gold-300 hover:bg-gold-600/20 transition-all disabled:opacity-50';
+
+export const PriceFeedPanel: React.FC<PriceFeedPanelProps> = ({ assets, settings, onSettingsChange, onApply }) => {
+  const [isFetching, setIsFetching] = useState(false);
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const priceable = assets.filter(isPriceable).length;
+
+  const apply = (quotes: PriceQuote[], source: string, errors: string[] = []) => {
+    const result = onApply(quotes, source);
+    setMessages([
+      `读取 ${quotes.length} 条报价，更新 ${result.updated} 项持仓，补写 ${result.snapshots} 个历史快照。`,
+      ...(result.unmatched.length > 0 ? [`未匹配的代码：${result.unmatched.join(', ')}`] : []),
+      ...errors
+    ]);
+  };
+
+  const handleCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { quotes, errors } = parsePriceCsv(await file.text());
+    apply(quotes, file.name, errors);
+  };
+
+  const fetchQuotes = async () => {
+    const codes = priceableCodes(assets);
+    if (!settings.quoteUrl || codes.length === 0) return;
+    setIsFetching(true);
+    try {
+      const provider = createHttpQuoteProvider(settings.quoteUrl);
+      apply(await provider.fetchQuotes(codes), provider.label);
+    } catch (error) {
+      setMessages([`获取行情失败：${error instanceof Error ? error.message : error}`]);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">行情更新</h3>
+        <p className="text-sm text-gray-500">
+            用每日价格或基金净值重估有代码和持仓数量的资产（当前 {priceable} 项），两次截图之间的日期会补写净值快照。CSV 每行为 代码,日期,价格[,币种]，可带表头。
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+            <input type="file" accept=".csv,text/csv,text/plain" onChange={handleCsv} className="hidden" id="price-csv-import" />
+            <label htmlFor="price-csv-import" className={buttonClass}>
+                <FileUp size={16} className="mr-2" /> 导入价格 CSV
+            </label>
+            <input
+                defaultValue={settings.quoteUrl}
+                onBlur={(e) => onSettingsChange({ ...settings, quoteUrl: e.target.value.trim() })}
+                placeholder="行情接口地址，如 http://localhost:8787/quotes"
+                className={`${inputClass} w-80 text-sm`}
+            />
+            <button onClick={fetchQuotes} disabled={!settings.quoteUrl || priceable === 0 || isFetching} className={buttonClass}>
+                <Download size={16} className="mr-2" /> {isFetching ? '获取中...' : '获取最新行情'}
+            </button>
+        </div>
+        {messages.length > 0 && (
+            <div className="space-y-1 text-xs text-gray-400">
+                {messages.map((m, i) => <div key={i}>{m}</div>)}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ProviderConfig, ProviderKind } from '../types';
+import { ProviderLabelMap } from '../services/aiProvider';
+
+interface ProviderSettingsPanelProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 font-mono';
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ config, onChange }) => {
+  const update = (patch: Partial<ProviderConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">AI 服务</h3>
+        <div className="flex flex-wrap gap-3">
+            {(Object.keys(ProviderLabelMap) as ProviderKind[]).map(kind => (
+                <button
+                    key={kind}
+                    onClick={() => update({ kind })}
+                    className={`px-4 py-2 rounded-full text-sm border transition-all ${config.kind === kind ? 'border-gold-500 text-gold-300 bg-gold-600/20' : 'border-neutral-700 text-gray-400 hover:text-white'}`}
+                >
+                    {ProviderLabelMap[kind]}
+                </button>
+            ))}
+        </div>
+
+        {config.kind === 'gemini' && (
+            <label className="flex items-center gap-3 text-sm text-gray-400">
+                模型
+                <input defaultValue={config.geminiModel} onBlur={(e) => e.target.value && update({ geminiModel: e.target.value })} className={`${inputClass} w-64`} />
+                <span className="text-xs text-gray-500">API Key 通过 .env.local 中的 GEMINI_API_KEY 配置</span>
+            </label>
+        )}
+
+        {config.kind === 'openai' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-400">
+                <label className="flex flex-col gap-1">
+                    接口地址
+                    <input defaultValue={config.openaiBaseUrl} onBlur={(e) => e.target.value && update({ openaiBaseUrl: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    模型
+                    <input defaultValue={config.openaiModel} onBlur={(e) => e.target.value && update({ openaiModel: e.target.value })} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    API Key（本地服务可留空）
+                    <input type="password" defaultValue={config.openaiApiKey} onBlur={(e) => update({ openaiApiKey: e.target.value })} className={inputClass} />
+                </label>
+            </div>
+        )}
+
+        {config.kind === 'mock' && (
+            <p className="text-sm text-gray-500">使用内置样例数据返回固定结果，无需联网，适用于开发与测试。</p>
+        )}
+    </div>
+  );
+};
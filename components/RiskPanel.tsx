@@ -0,0 +1,107 @@
+import React from 'react';
+import { DrawdownChart } from './Charts';
+import { Concentration, RiskMetrics, RiskSettings } from '../types';
+
+interface RiskPanelProps {
+  metrics: RiskMetrics;
+  settings: RiskSettings;
+  periodLabel: string; // The return period the figures cover
+  onSettingsChange: (settings: RiskSettings) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 font-mono';
+
+const formatPercent = (value: number | null) => value === null ? '--' : `${value.toFixed(2)}%`;
+
+// Rough bands used by competition regulators: below 1500 unconcentrated, above 2500 highly concentrated
+const hhiTone = (hhi: number) => hhi > 2500 ? 'text-red-400' : hhi > 1500 ? 'text-gold-300' : 'text-green-400';
+
+const ConcentrationCard: React.FC<{ title: string; concentration: Concentration; topN: number }> = ({ title, concentration, topN }) => (
+    <div className="bg-obsidian-900 rounded-xl p-4">
+        <div className="text-xs text-gray-400 tracking-widest">{title}</div>
+        <div className="mt-1 flex items-baseline gap-3">
+            <span className={`text-2xl font-bold font-mono ${hhiTone(concentration.hhi)}`}>{concentration.hhi.toFixed(0)}</span>
+            <span className="text-xs text-gray-500">HHI · 前 {topN} 合计 {concentration.topWeight.toFixed(1)}%</span>
+        </div>
+        <div className="mt-2 space-y-1 text-xs text-gray-400">
+            {concentration.top.map(t => (
+                <div key={t.name} className="flex justify-between gap-2">
+                    <span className="truncate">{t.name}</span>
+                    <span className="font-mono">{t.weight.toFixed(1)}%</span>
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+export const RiskPanel: React.FC<RiskPanelProps> = ({ metrics, settings, periodLabel, onSettingsChange }) => {
+  const { maxDrawdown } = metrics;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 glass-panel p-6 rounded-2xl">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h3 className="text-xl font-bold text-white">回撤</h3>
+                    <div className="text-xs text-gray-400 mt-1">
+                        {periodLabel} · 按时间加权收益计算，不受资金进出影响
+                    </div>
+                </div>
+                <div className="text-right text-xs text-gray-400">
+                    最大回撤 <span className="font-mono text-red-400 text-base">{maxDrawdown ? `${maxDrawdown.depth.toFixed(2)}%` : '--'}</span>
+                    {maxDrawdown && (
+                        <div className="mt-1">
+                            {maxDrawdown.peakDate} → {maxDrawdown.troughDate}
+                            {maxDrawdown.recoveryDate ? `，${maxDrawdown.recoveryDate} 收复` : '，尚未收复'}
+                        </div>
+                    )}
+                </div>
+            </div>
+            <DrawdownChart drawdowns={metrics.drawdowns} />
+        </div>
+
+        <div className="glass-panel p-6 rounded-2xl space-y-4">
+            <h3 className="text-xl font-bold text-white">风险指标</h3>
+            <div className="grid grid-cols-3 gap-3">
+                <div className="bg-obsidian-900 rounded-xl p-3">
+                    <div className="text-xs text-gray-400">年化收益</div>
+                    <div className="font-mono text-lg text-white mt-1">{formatPercent(metrics.annualizedReturn)}</div>
+                </div>
+                <div className="bg-obsidian-900 rounded-xl p-3">
+                    <div className="text-xs text-gray-400">年化波动</div>
+                    <div className="font-mono text-lg text-white mt-1">{formatPercent(metrics.volatility)}</div>
+                </div>
+                <div className="bg-obsidian-900 rounded-xl p-3">
+                    <div className="text-xs text-gray-400">夏普比率</div>
+                    <div className="font-mono text-lg text-gold-300 mt-1">{metrics.sharpe === null ? '--' : metrics.sharpe.toFixed(2)}</div>
+                </div>
+            </div>
+            <ConcentrationCard title="持仓集中度" concentration={metrics.byAsset} topN={settings.topN} />
+            <ConcentrationCard title="类别集中度" concentration={metrics.byCategory} topN={settings.topN} />
+            <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+                <label className="flex items-center gap-2">
+                    无风险利率 %
+                    <input
+                        type="number"
+                        step="0.1"
+                        value={settings.riskFreeRate}
+                        onChange={(e) => onSettingsChange({ ...settings, riskFreeRate: Number(e.target.value) || 0 })}
+                        className={`${inputClass} w-20`}
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    前 N 大
+                    <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={settings.topN}
+                        onChange={(e) => onSettingsChange({ ...settings, topN: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                        className={`${inputClass} w-16`}
+                    />
+                </label>
+            </div>
+        </div>
+    </div>
+  );
+};
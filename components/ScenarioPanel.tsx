@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ArrowRight } from './IconComponents';
+import { AllocationChart } from './Charts';
+import { Asset, AssetCategory, FxSettings, PerformancePoint, RiskMetrics, RiskSettings, Scenario, ScenarioTrade } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { assetBaseAmount, currencySymbol } from '../services/fxService';
+import { computeRiskMetrics } from '../services/riskService';
+import { applyScenario, createScenario, createScenarioTrade, stressSeries } from '../services/scenarioService';
+import { maskAmount } from '../services/privacyService';
+
+interface ScenarioPanelProps {
+  assets: Asset[];
+  fx: FxSettings;
+  series: PerformancePoint[]; // Performance of the real holdings, for the risk comparison
+  riskSettings: RiskSettings;
+  scenarios: Scenario[]; // Saved for this portfolio view
+  portfolioId: string;
+  privacy: boolean;
+  onSave: (scenario: Scenario) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+// Each row: label, how to read it off the metrics, and how to print it
+const METRIC_ROWS: { label: string; value: (m: RiskMetrics) => number | null; format: (v: number) => string }[] = [
+  { label: '年化收益', value: m => m.annualizedReturn, format: v => `${v.toFixed(2)}%` },
+  { label: '年化波动', value: m => m.volatility, format: v => `${v.toFixed(2)}%` },
+  { label: '夏普比率', value: m => m.sharpe, format: v => v.toFixed(2) },
+  { label: '最大回撤', value: m => m.maxDrawdown?.depth ?? null, format: v => `${v.toFixed(2)}%` },
+  { label: '前 N 大持仓合计', value: m => m.byAsset.topWeight, format: v => `${v.toFixed(1)}%` },
+  { label: '持仓 HHI', value: m => m.byAsset.hhi, format: v => v.toFixed(0) },
+  { label: '类别 HHI', value: m => m.byCategory.hhi, format: v => v.toFixed(0) }
+];
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ assets, fx, series, riskSettings, scenarios, portfolioId, privacy, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Scenario>(() => createScenario(portfolioId, ''));
+
+  const symbol = currencySymbol(fx.baseCurrency);
+  const netWorth = (list: Asset[]) => list.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+  const formatAmount = (value: number) => `${value < 0 ? '-' : ''}${symbol}${maskAmount(Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}`;
+
+  const simulated = applyScenario(assets, draft, fx);
+  const realMetrics = computeRiskMetrics(series, assets, fx, riskSettings);
+  const simMetrics = computeRiskMetrics(stressSeries(series, simulated.shockReturn), simulated.assets, fx, riskSettings);
+  const realValue = netWorth(assets);
+  const simValue = netWorth(simulated.assets);
+  const isSaved = scenarios.some(s => s.id === draft.id);
+
+  const updateTrade = (id: string, patch: Partial<ScenarioTrade>) =>
+    setDraft({ ...draft, trades: draft.trades.map(t => t.id === id ? { ...t, ...patch } : t) });
+
+  const setShock = (category: AssetCategory, value: string) => {
+    const shocks = { ...draft.shocks };
+    if (value === '' || Number(value) === 0) delete shocks[category];
+    else shocks[category] = Number(value);
+    setDraft({ ...draft, shocks });
+  };
+
+  const save = () => {
+    if (!draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="space-y-6">
+        <div className="glass-panel p-6 rounded-2xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-xl font-bold text-white">情景模拟</h3>
+                <div className="flex items-center gap-2 text-sm">
+                    <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="情景名称"
+                        className={`${inputClass} w-48`}
+                    />
+                    <button
+                        onClick={save}
+                        disabled={!draft.name.trim()}
+                        className="px-4 py-1 border border-gold-600/50 rounded-full text-gold-300 hover:bg-gold-600/20 disabled:opacity-50"
+                    >
+                        {isSaved ? '更新' : '保存'}
+                    </button>
+                    <button onClick={() => setDraft(createScenario(portfolioId, ''))} className="px-3 py-1 text-gray-400 hover:text-white">
+                        新建
+                    </button>
+                </div>
+            </div>
+            <p className="text-sm text-gray-500">
+                在持仓副本上试算调仓与市场冲击，不会改动真实持仓。转出的资金进入对应类别的模拟持仓；冲击在调仓之后按类别施加。
+            </p>
+
+            <div className="space-y-2">
+                <div className="text-sm text-gray-400">调仓</div>
+                {draft.trades.map(trade => (
+                    <div key={trade.id} className="flex flex-wrap items-center gap-2 text-sm">
+                        <select
+                            value={trade.from || ''}
+                            onChange={(e) => updateTrade(trade.id, e.target.value
+                                ? { from: e.target.value, share: trade.share ?? 50, amount: undefined }
+                                : { from: undefined, share: undefined, amount: trade.amount ?? 0 })}
+                            className={`${inputClass} w-48`}
+                        >
+                            <option value="">新增资金</option>
+                            {assets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                        {trade.from && (
+                            <select
+                                value={trade.share !== undefined ? 'share' : 'amount'}
+                                onChange={(e) => updateTrade(trade.id, e.target.value === 'share'
+                                    ? { share: 50, amount: undefined }
+                                    : { share: undefined, amount: 0 })}
+                                className={inputClass}
+                            >
+                                <option value="share">按比例 %</option>
+                                <option value="amount">按金额 {fx.baseCurrency}</option>
+                            </select>
+                        )}
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={trade.share ?? trade.amount ?? 0}
+                            onChange={(e) => updateTrade(trade.id, trade.share !== undefined
+                                ? { share: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }
+                                : { amount: Math.max(0, Number(e.target.value) || 0) })}
+                            className={`${inputClass} w-32 text-right font-mono`}
+                        />
+                        <ArrowRight size={14} className="text-gray-500" />
+                        <select
+                            value={trade.to}
+                            onChange={(e) => updateTrade(trade.id, { to: e.target.value as AssetCategory })}
+                            className={inputClass}
+                        >
+                            {Object.values(AssetCategory).map(c => <option key={c} value={c}>{CategoryDisplayMap[c]}</option>)}
+                        </select>
+                        <button
+                            onClick={() => setDraft({ ...draft, trades: draft.trades.filter(t => t.id !== trade.id) })}
+                            className="text-gray-500 hover:text-red-400"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                ))}
+                <button
+                    onClick={() => setDraft({ ...draft, trades: [...draft.trades, createScenarioTrade(assets[0]?.id)] })}
+                    className="flex items-center text-sm text-gold-300 hover:text-gold-200"
+                >
+                    <Plus size={14} className="mr-1" /> 添加调仓
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                <div className="text-sm text-gray-400">市场冲击（按类别涨跌 %）</div>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+                    {Object.values(AssetCategory).map(c => (
+                        <label key={c} className="flex items-center gap-2">
+                            {CategoryDisplayMap[c]}
+                            <input
+                                type="number"
+                                step="any"
+                                min={-100}
+                                value={draft.shocks[c] ?? ''}
+                                onChange={(e) => setShock(c, e.target.value)}
+                                placeholder="0"
+                                className={`${inputClass} w-20 text-right font-mono`}
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {simulated.warnings.map((w, i) => <div key={i} className="text-xs text-red-400">{w}</div>)}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="glass-panel p-6 rounded-2xl flex flex-col">
+                <h3 className="text-lg font-bold text-white">当前配置</h3>
+                <div className="text-2xl font-bold text-white mt-2">{formatAmount(realValue)}</div>
+                <AllocationChart assets={assets} fx={fx} privacy={privacy} />
+            </div>
+            <div className="glass-panel p-6 rounded-2xl flex flex-col">
+                <h3 className="text-lg font-bold text-white">模拟配置</h3>
+                <div className="text-2xl font-bold text-white mt-2">
+                    {formatAmount(simValue)}
+                    <span className={`ml-3 text-sm font-mono ${simValue >= realValue ? 'text-green-400' : 'text-red-400'}`}>
+                        {simValue >= realValue ? '+' : '-'}{formatAmount(Math.abs(simValue - realValue))}
+                    </span>
+                </div>
+                <AllocationChart assets={simulated.assets} fx={fx} privacy={privacy} />
+            </div>
+            <div className="glass-panel p-6 rounded-2xl">
+                <h3 className="text-lg font-bold text-white mb-4">风险指标对比</h3>
+                <table className="w-full text-sm">
+                    <thead className="text-gray-400 text-xs">
+                        <tr>
+                            <th className="py-2 text-left font-normal">指标</th>
+                            <th className="py-2 text-right font-normal">当前</th>
+                            <th className="py-2 text-right font-normal">模拟</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-neutral-800 font-mono">
+                        {METRIC_ROWS.map(row => {
+                            const real = row.value(realMetrics);
+                            const sim = row.value(simMetrics);
+                            return (
+                                <tr key={row.label}>
+                                    <td className="py-2 font-sans text-gray-300">{row.label.replace('N', String(riskSettings.topN))}</td>
+                                    <td className="py-2 text-right text-gray-400">{real === null ? '--' : row.format(real)}</td>
+                                    <td className={`py-2 text-right ${sim !== real ? 'text-gold-300' : 'text-gray-400'}`}>{sim === null ? '--' : row.format(sim)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <p className="mt-3 text-xs text-gray-500">收益、波动与回撤在历史净值后追加一次冲击计算；调仓本身不计作收益。</p>
+            </div>
+        </div>
+
+        {scenarios.length > 0 && (
+            <div className="glass-panel p-6 rounded-2xl space-y-3">
+                <h3 className="text-lg font-bold text-white">已保存的情景</h3>
+                <div className="divide-y divide-neutral-800 text-sm">
+                    {scenarios.map(s => (
+                        <div key={s.id} className={`flex items-center justify-between py-2 ${s.id === draft.id ? 'text-gold-300' : 'text-gray-300'}`}>
+                            <button onClick={() => setDraft(s)} className="text-left hover:text-white">
+                                {s.name}
+                                <span className="ml-3 text-xs text-gray-500">
+                                    {s.trades.length} 笔调仓 · {Object.keys(s.shocks).length} 项冲击 · {new Date(s.createdAt).toLocaleDateString('zh-CN')}
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => {
+                                    onDelete(s.id);
+                                    if (s.id === draft.id) setDraft(createScenario(portfolioId, ''));
+                                }}
+                                className="text-gray-500 hover:text-red-400"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
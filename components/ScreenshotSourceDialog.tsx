@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from './IconComponents';
+import { Asset, Portfolio, Screenshot } from '../types';
+import { portfolioName } from '../services/portfolioService';
+import { screenshotRepository } from '../services/storageService';
+
+interface ScreenshotSourceDialogProps {
+  asset: Asset; // Must have a source
+  portfolios: Portfolio[];
+  onClose: () => void;
+}
+
+export const ScreenshotSourceDialog: React.FC<ScreenshotSourceDialogProps> = ({ asset, portfolios, onClose }) => {
+  const [screenshot, setScreenshot] = useState<Screenshot | null | undefined>(undefined); // Undefined while loading
+  const [url, setUrl] = useState<string | null>(null);
+  const regionRef = useRef<HTMLDivElement>(null);
+  const region = asset.source?.region;
+
+  useEffect(() => {
+    let created: string | null = null;
+    screenshotRepository.get(asset.source!.screenshotId)
+      .then(found => {
+        setScreenshot(found || null);
+        if (found) {
+          created = URL.createObjectURL(found.blob);
+          setUrl(created);
+        }
+      })
+      .catch(error => {
+        console.error(error);
+        setScreenshot(null);
+      });
+    return () => { if (created) URL.revokeObjectURL(created); };
+  }, [asset.source]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 flex items-start justify-center overflow-y-auto p-4" onClick={onClose}>
+      <div className="glass-panel bg-obsidian-900 rounded-2xl w-full max-w-xl my-12 p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-4">
+            <div>
+                <h2 className="text-xl font-bold text-white">数据来源：{asset.name}</h2>
+                {screenshot && (
+                    <p className="text-sm text-gray-500 mt-1">
+                        {screenshot.fileName} · {new Date(screenshot.createdAt).toLocaleString('zh-CN')} · {portfolioName(portfolios, screenshot.portfolioId)}
+                    </p>
+                )}
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-500 hover:text-white" title="关闭">
+                <X size={18} />
+            </button>
+        </div>
+
+        {screenshot === undefined && <div className="text-sm text-gray-500 animate-pulse">加载中...</div>}
+        {screenshot === null && <div className="text-sm text-gray-500">原始截图已不存在。</div>}
+
+        {url && (
+            <div className="relative bg-black rounded-lg overflow-y-auto max-h-[60vh]">
+                <img
+                    src={url}
+                    alt={screenshot?.fileName}
+                    className="w-full block"
+                    onLoad={() => regionRef.current?.scrollIntoView({ block: 'center' })}
+                />
+                {/* The row the values were read from, as reported by the model */}
+                {region && (
+                    <div
+                        ref={regionRef}
+                        className="absolute border-2 border-gold-400 bg-gold-400/10 rounded"
+                        style={{
+                          top: `${region.top * 100}%`,
+                          left: `${region.left * 100}%`,
+                          width: `${(region.right - region.left) * 100}%`,
+                          height: `${(region.bottom - region.top) * 100}%`
+                        }}
+                    />
+                )}
+            </div>
+        )}
+        {screenshot && !region && <div className="text-xs text-gray-500">模型未返回该持仓在截图中的位置。</div>}
+
+        {screenshot && screenshot.rawOutput.length > 0 && (
+            <details className="text-xs text-gray-400">
+                <summary className="cursor-pointer hover:text-white">模型原始输出</summary>
+                {screenshot.rawOutput.map((output, i) => (
+                    <pre key={i} className="mt-2 p-3 bg-black/40 rounded-lg overflow-x-auto whitespace-pre-wrap break-all">{output}</pre>
+                ))}
+            </details>
+        )}
+      </div>
+    </div>
+  );
+};
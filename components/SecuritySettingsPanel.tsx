@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Lock } from './IconComponents';
+
+interface SecuritySettingsPanelProps {
+  encrypted: boolean;
+  autoLockMinutes: number; // 0 turns auto-lock off
+  onEnable: (passphrase: string) => Promise<void>;
+  onDisable: (passphrase: string) => Promise<boolean>; // Resolves false for a wrong passphrase
+  onAutoLockChange: (minutes: number) => void;
+  onLock: () => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AutoLockLabelMap: Record<number, string> = {
+  0: '从不',
+  5: '5 分钟',
+  15: '15 分钟',
+  30: '30 分钟',
+  60: '1 小时'
+};
+
+const buttonClass = 'flex items-center px-4 py-2 border border-gold-600/50 rounded-full text-sm text-gold-300 hover:bg-gold-600/20 transition-all disabled:opacity-50';
+
+export const SecuritySettingsPanel: React.FC<SecuritySettingsPanelProps> = ({ encrypted, autoLockMinutes, onEnable, onDisable, onAutoLockChange, onLock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const error = encrypted || !passphrase ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH ? `密码至少 ${MIN_PASSPHRASE_LENGTH} 位`
+    : confirmation && confirmation !== passphrase ? '两次输入的密码不一致'
+    : null;
+  const canSubmit = !isBusy && !!passphrase && !error && (encrypted || confirmation === passphrase);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    try {
+      setMessage(await action());
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : '操作失败。');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const submit = () => run(async () => {
+    if (!encrypted) {
+      await onEnable(passphrase);
+      return '已启用加密。';
+    }
+    return await onDisable(passphrase) ? '已关闭加密。' : '密码错误。';
+  });
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">数据加密</h3>
+        <p className="text-sm text-gray-500">
+            设置密码后，本地保存的全部数据（持仓、快照、报告、截图与设置）都会以 AES-GCM 加密，每次打开需输入密码。密码不会被保存，遗忘后数据无法找回，请先做好备份。
+        </p>
+
+        <div className="flex flex-wrap items-end gap-3 text-sm text-gray-400">
+            <label className="flex flex-col gap-1">
+                {encrypted ? '当前密码' : '新密码'}
+                <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={`${inputClass} w-48`} />
+            </label>
+            {!encrypted && (
+                <label className="flex flex-col gap-1">
+                    确认密码
+                    <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={`${inputClass} w-48`} />
+                </label>
+            )}
+            <button onClick={submit} disabled={!canSubmit} className={buttonClass}>
+                {isBusy ? '处理中...' : encrypted ? '关闭加密' : '启用加密'}
+            </button>
+        </div>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        {message && <div className="text-xs text-gray-400">{message}</div>}
+
+        {encrypted && (
+            <div className="flex flex-wrap items-center gap-4 border-t border-neutral-800 pt-4 text-sm text-gray-400">
+                <label className="flex items-center gap-2">
+                    无操作自动锁定
+                    <select value={autoLockMinutes} onChange={(e) => onAutoLockChange(Number(e.target.value))} className={inputClass}>
+                        {Object.entries(AutoLockLabelMap).map(([minutes, label]) => (
+                            <option key={minutes} value={minutes}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+                <button onClick={onLock} className={buttonClass}>
+                    <Lock size={16} className="mr-2" /> 立即锁定
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
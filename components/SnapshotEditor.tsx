@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from './IconComponents';
+import { HistoryPoint } from '../types';
+import { toDateKey } from '../services/snapshotService';
+
+interface SnapshotEditorProps {
+  history: HistoryPoint[];
+  currency: string;
+  onUpsert: (point: HistoryPoint) => void;
+  onRemove: (date: string) => void;
+  onBackfillFromHoldings: (date: string) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 font-mono';
+
+export const SnapshotEditor: React.FC<SnapshotEditorProps> = ({ history, currency, onUpsert, onRemove, onBackfillFromHoldings }) => {
+  const [date, setDate] = useState(toDateKey());
+  const [netWorth, setNetWorth] = useState('');
+  const [returnRate, setReturnRate] = useState('');
+
+  // A hand-entered total no longer matches the per-asset breakdown, so the breakdown is dropped
+  const editPoint = (point: HistoryPoint, patch: Partial<HistoryPoint>) =>
+    onUpsert({
+      date: point.date,
+      totalNetWorth: point.totalNetWorth,
+      totalReturnRate: point.totalReturnRate,
+      currency: point.currency || currency,
+      ...patch,
+      source: 'manual'
+    });
+
+  const handleAdd = () => {
+    const value = Number(netWorth);
+    if (!date || !netWorth || !isFinite(value) || value < 0) return;
+    onUpsert({
+      date,
+      totalNetWorth: value,
+      totalReturnRate: Number(returnRate) || 0,
+      currency,
+      source: 'manual'
+    });
+    setNetWorth('');
+    setReturnRate('');
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <h3 className="text-xl font-bold text-white">历史快照</h3>
+        <p className="text-sm text-gray-500">每次持仓变化都会自动记录当天快照。可在此补录或修改过往数据（金额单位：{currency}）。</p>
+
+        <div className="flex flex-wrap items-center gap-3">
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            <input
+                type="number"
+                step="any"
+                value={netWorth}
+                onChange={(e) => setNetWorth(e.target.value)}
+                placeholder="总净值"
+                className={`${inputClass} w-36 text-right`}
+            />
+            <input
+                type="number"
+                step="any"
+                value={returnRate}
+                onChange={(e) => setReturnRate(e.target.value)}
+                placeholder="收益率 %"
+                className={`${inputClass} w-24 text-right`}
+            />
+            <button onClick={handleAdd} className="flex items-center text-sm text-gold-400 hover:text-gold-300">
+                <Plus size={16} className="mr-1" /> 补录
+            </button>
+            <button onClick={() => date && onBackfillFromHoldings(date)} className="text-sm text-gray-400 hover:text-white">
+                按当前持仓补录
+            </button>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+                <thead className="text-gray-400 text-xs tracking-wider">
+                    <tr>
+                        <th className="py-2">日期</th>
+                        <th className="py-2 text-right">总净值</th>
+                        <th className="py-2 text-right">收益率 %</th>
+                        <th className="py-2 text-right">来源</th>
+                        <th className="py-2"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-800">
+                    {[...history].reverse().map(point => (
+                        <tr key={point.date}>
+                            <td className="py-2 font-mono text-gray-300">{point.date}</td>
+                            <td className="py-2 text-right">
+                                <input
+                                    type="number"
+                                    step="any"
+                                    defaultValue={point.totalNetWorth.toFixed(2)}
+                                    key={`${point.date}-${point.totalNetWorth}`}
+                                    onBlur={(e) => {
+                                      const value = Number(e.target.value);
+                                      if (isFinite(value) && value >= 0 && value.toFixed(2) !== point.totalNetWorth.toFixed(2)) {
+                                        editPoint(point, { totalNetWorth: value });
+                                      }
+                                    }}
+                                    className={`${inputClass} w-36 text-right`}
+                                />
+                            </td>
+                            <td className="py-2 text-right">
+                                <input
+                                    type="number"
+                                    step="any"
+                                    defaultValue={point.totalReturnRate.toFixed(2)}
+                                    key={`${point.date}-${point.totalReturnRate}`}
+                                    onBlur={(e) => {
+                                      const value = Number(e.target.value);
+                                      if (isFinite(value) && value.toFixed(2) !== point.totalReturnRate.toFixed(2)) {
+                                        editPoint(point, { totalReturnRate: value });
+                                      }
+                                    }}
+                                    className={`${inputClass} w-24 text-right`}
+                                />
+                            </td>
+                            <td className="py-2 text-right text-xs text-gray-500">
+                                {point.source === 'manual' ? '手动' : point.source === 'market' ? '行情' : '自动'}
+                            </td>
+                            <td className="py-2 text-right">
+                                <button onClick={() => onRemove(point.date)} className="text-gray-500 hover:text-red-400">
+                                    <Trash2 size={16} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
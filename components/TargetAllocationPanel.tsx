@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Trash2 } from './IconComponents';
+import { AllocationComparisonChart } from './Charts';
+import { AllocationDrift, AllocationTarget, Asset, AssetCategory, FxSettings } from '../types';
+import { CategoryDisplayMap } from '../constants';
+import { currencySymbol } from '../services/fxService';
+import { maskAmount } from '../services/privacyService';
+import { DEFAULT_DRIFT_BAND, computeDrift, findOrphanTargets, planRebalance, seedTargetsFromCurrent, validateTargets } from '../services/rebalanceService';
+
+interface TargetAllocationPanelProps {
+  assets: Asset[];
+  targets: AllocationTarget[];
+  fx: FxSettings;
+  privacy: boolean; // Mask amounts, keeping weights visible
+  onChange: (targets: AllocationTarget[]) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200 font-mono';
+
+// Trades below this (in the base currency) are not worth listing
+const MIN_TRADE_AMOUNT = 1;
+
+export const TargetAllocationPanel: React.FC<TargetAllocationPanelProps> = ({ assets, targets, fx, privacy, onChange }) => {
+  const [newCash, setNewCash] = useState('');
+  const [cashOnly, setCashOnly] = useState(false);
+
+  const symbol = currencySymbol(fx.baseCurrency);
+  const drifts = computeDrift(assets, targets, fx);
+  const error = validateTargets(targets, assets);
+  const plan = !error && drifts.length > 0 ? planRebalance(drifts, Number(newCash) || 0, cashOnly) : null;
+  const trades = plan ? plan.trades.filter(t => Math.abs(t.amount) >= MIN_TRADE_AMOUNT) : [];
+
+  const label = (slice: Pick<AllocationTarget, 'scope' | 'key'>) => slice.scope === 'asset'
+    ? assets.find(a => a.id === slice.key)?.name || '已删除资产'
+    : CategoryDisplayMap[slice.key as AssetCategory] || slice.key;
+
+  const isTarget = (t: AllocationTarget, slice: AllocationDrift) => t.scope === slice.scope && t.key === slice.key;
+  const orphans = findOrphanTargets(targets, assets);
+  const isOrphan = (slice: AllocationDrift) => orphans.some(t => isTarget(t, slice));
+
+  // Rows for held categories without a target become real targets once edited
+  const setField = (slice: AllocationDrift, patch: Partial<AllocationTarget>) => {
+    const exists = targets.some(t => isTarget(t, slice));
+    onChange(exists
+      ? targets.map(t => isTarget(t, slice) ? { ...t, ...patch } : t)
+      : [...targets, { scope: slice.scope, key: slice.key, weight: slice.weight, band: slice.band, ...patch }]);
+  };
+
+  const addAssetTarget = (assetId: string) => {
+    if (!assetId) return;
+    onChange([...targets, { scope: 'asset', key: assetId, weight: 0, band: DEFAULT_DRIFT_BAND }]);
+  };
+
+  const untargetedAssets = assets.filter(a => !targets.some(t => t.scope === 'asset' && t.key === a.id));
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+            <h3 className="text-xl font-bold text-white">目标配置与再平衡</h3>
+            {targets.length > 0 && (
+                <button onClick={() => onChange([])} className="text-sm text-gray-500 hover:text-red-400">清空目标</button>
+            )}
+        </div>
+
+        {targets.length === 0 ? (
+            <div className="text-sm text-gray-500 space-y-3">
+                <p>为各资产类别（或单项资产）设定目标比例与容忍区间，偏离超出区间时会在总览中提醒，并给出买卖金额。</p>
+                <button
+                    onClick={() => onChange(seedTargetsFromCurrent(assets, fx))}
+                    disabled={assets.length === 0}
+                    className="px-4 py-2 rounded-xl border border-gold-600/50 text-gold-300 hover:bg-gold-600/20 disabled:opacity-40"
+                >
+                    以当前比例为起点设定目标
+                </button>
+            </div>
+        ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-400 text-xs tracking-wider">
+                            <tr>
+                                <th className="p-2">配置项</th>
+                                <th className="p-2 text-right">当前</th>
+                                <th className="p-2 text-right">目标 %</th>
+                                <th className="p-2 text-right">容忍 ±</th>
+                                <th className="p-2 text-right">偏离</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-neutral-800">
+                            {drifts.map(slice => (
+                                <tr key={`${slice.scope}:${slice.key}`}>
+                                    <td className={`p-2 ${isOrphan(slice) ? 'text-red-400' : 'text-gray-200'}`}>
+                                        {label(slice)}
+                                        {slice.scope === 'asset' && <span className="ml-2 text-xs text-gray-500">单项</span>}
+                                    </td>
+                                    <td className="p-2 text-right font-mono text-gray-300">{slice.currentWeight.toFixed(1)}%</td>
+                                    <td className="p-2 text-right">
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={slice.weight}
+                                            onChange={(e) => setField(slice, { weight: Number(e.target.value) })}
+                                            className={`${inputClass} w-20 text-right`}
+                                        />
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={slice.band}
+                                            onChange={(e) => setField(slice, { band: Number(e.target.value) })}
+                                            className={`${inputClass} w-16 text-right`}
+                                        />
+                                    </td>
+                                    <td className={`p-2 text-right font-mono ${slice.breached ? 'text-red-400' : 'text-gray-400'}`}>
+                                        {slice.drift >= 0 ? '+' : ''}{slice.drift.toFixed(1)}
+                                    </td>
+                                    <td className="p-2 text-right">
+                                        {targets.some(t => isTarget(t, slice)) && (
+                                            <button
+                                                onClick={() => onChange(targets.filter(t => !isTarget(t, slice)))}
+                                                className="p-1 text-gray-500 hover:text-red-400"
+                                                title="移除目标"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {untargetedAssets.length > 0 && (
+                        <select value="" onChange={(e) => addAssetTarget(e.target.value)} className={`${inputClass} text-sm font-sans`}>
+                            <option value="">为单项资产设定目标…</option>
+                            {untargetedAssets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                    )}
+                    {error && <div className="text-sm text-red-400">{error}</div>}
+                </div>
+
+                <AllocationComparisonChart
+                    slices={drifts.map(slice => ({ name: label(slice), current: slice.currentWeight, target: slice.weight }))}
+                />
+            </div>
+        )}
+
+        {plan && (
+            <div className="space-y-3 border-t border-neutral-800 pt-4">
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-gray-300 font-medium">再平衡计算</span>
+                    <input
+                        type="number"
+                        step="any"
+                        value={newCash}
+                        onChange={(e) => setNewCash(e.target.value)}
+                        placeholder={`新增资金 (${fx.baseCurrency})`}
+                        className={`${inputClass} w-40 text-right`}
+                    />
+                    <label className="flex items-center text-gray-400">
+                        <input type="checkbox" checked={cashOnly} onChange={(e) => setCashOnly(e.target.checked)} className="mr-2 accent-yellow-600" />
+                        仅用新增资金调整（不卖出）
+                    </label>
+                </div>
+                {trades.length === 0 ? (
+                    <div className="text-sm text-gray-500">当前配置已符合目标，无需调整。</div>
+                ) : (
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-400 text-xs tracking-wider">
+                            <tr>
+                                <th className="p-2">配置项</th>
+                                <th className="p-2 text-right">当前金额</th>
+                                <th className="p-2 text-right">目标金额</th>
+                                <th className="p-2 text-right">操作</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-neutral-800">
+                            {trades.map(trade => (
+                                <tr key={`${trade.scope}:${trade.key}`}>
+                                    <td className="p-2 text-gray-200">{label(trade)}</td>
+                                    <td className="p-2 text-right font-mono text-gray-400">{symbol}{maskAmount(trade.currentValue.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}</td>
+                                    <td className="p-2 text-right font-mono text-gray-400">{symbol}{maskAmount(trade.targetValue.toLocaleString(undefined, { maximumFractionDigits: 0 }), privacy)}</td>
+                                    <td className={`p-2 text-right font-mono ${trade.amount > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                        {trade.amount > 0 ? '买入' : '卖出'} {symbol}{maskAmount(Math.abs(trade.amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }), privacy)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
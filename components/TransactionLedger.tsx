@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from './IconComponents';
+import { ALL_PORTFOLIOS_ID, Asset, FxSettings, HistoryPoint, Portfolio, ReturnPeriod, Transaction, TransactionType } from '../types';
+import { toDateKey } from '../services/snapshotService';
+import { assetPortfolioId, portfolioName } from '../services/portfolioService';
+import { TransactionTypeLabelMap, filterTransactions, sortTransactions, validateTransaction } from '../services/transactionService';
+import { ReturnPeriodLabelMap, computePerformance, periodStartDate, selectValueSeries } from '../services/performanceService';
+import { maskAmount } from '../services/privacyService';
+
+interface TransactionLedgerProps {
+  transactions: Transaction[]; // Already narrowed to the selected portfolio
+  assets: Asset[];
+  portfolios: Portfolio[];
+  defaultPortfolioId: string;
+  showPortfolio: boolean;
+  history: HistoryPoint[];
+  fx: FxSettings;
+  period: ReturnPeriod;
+  privacy: boolean; // Mask amounts, keeping return rates visible
+  onAdd: (fields: Omit<Transaction, 'id' | 'source'>) => void;
+  onRemove: (id: string) => void;
+}
+
+const inputClass = 'bg-obsidian-900 border border-neutral-700 rounded-md px-2 py-1 text-gray-200';
+
+const formatRate = (value: number | null) => value === null ? '--' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export const TransactionLedger: React.FC<TransactionLedgerProps> = ({
+  transactions, assets, portfolios, defaultPortfolioId, showPortfolio, history, fx, period, privacy, onAdd, onRemove
+}) => {
+  const [date, setDate] = useState(toDateKey());
+  const [type, setType] = useState<TransactionType>('buy');
+  const [assetId, setAssetId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(fx.baseCurrency);
+  const [portfolioId, setPortfolioId] = useState(defaultPortfolioId);
+  const [note, setNote] = useState('');
+  const [filterAssetId, setFilterAssetId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const asset = assets.find(a => a.id === assetId);
+  const visible = sortTransactions(filterAssetId ? transactions.filter(t => t.assetId === filterAssetId) : transactions);
+  const assetName = (id?: string) => id ? (assets.find(a => a.id === id)?.name || '已删除资产') : '整个账户';
+
+  // Per-asset returns use the asset's own value series and only its own entries
+  const assetPerformance = filterAssetId
+    ? computePerformance(
+        selectValueSeries(history, ALL_PORTFOLIOS_ID, filterAssetId),
+        filterTransactions(transactions, ALL_PORTFOLIOS_ID, filterAssetId),
+        fx,
+        periodStartDate(period)
+      )
+    : null;
+
+  const handleSelectAsset = (id: string) => {
+    setAssetId(id);
+    const selected = assets.find(a => a.id === id);
+    if (selected) setCurrency(selected.currency);
+  };
+
+  const handleAdd = () => {
+    const fields: Omit<Transaction, 'id' | 'source'> = {
+      date,
+      type,
+      amount: Number(amount),
+      currency,
+      portfolioId: asset ? assetPortfolioId(asset) : portfolioId,
+      assetId: asset?.id,
+      note: note.trim() || undefined
+    };
+    const problem = validateTransaction(fields);
+    setError(problem);
+    if (problem) return;
+    onAdd(fields);
+    setAmount('');
+    setNote('');
+  };
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+            <h3 className="text-xl font-bold text-white">交易流水</h3>
+            <select value={filterAssetId} onChange={(e) => setFilterAssetId(e.target.value)} className={`${inputClass} text-sm`}>
+                <option value="">全部资产</option>
+                {assets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+        </div>
+        <p className="text-sm text-gray-500">
+            买入、卖出、分红、转入转出与费用用于计算剔除资金进出后的真实收益。截图导入时新增持仓或份额变化会自动推断为买卖记录。
+        </p>
+
+        {assetPerformance && (
+            <div className="text-sm text-gray-300">
+                {assetName(filterAssetId)} · {ReturnPeriodLabelMap[period]}：
+                时间加权收益 <span className="font-mono text-gold-300">{formatRate(assetPerformance.twr)}</span>
+                <span className="mx-2 text-gray-600">|</span>
+                年化资金加权收益 (XIRR) <span className="font-mono text-gold-300">{formatRate(assetPerformance.xirr)}</span>
+            </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+            <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClass} font-mono`} />
+            <select value={type} onChange={(e) => setType(e.target.value as TransactionType)} className={inputClass}>
+                {Object.entries(TransactionTypeLabelMap).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+            <select value={assetId} onChange={(e) => handleSelectAsset(e.target.value)} className={inputClass}>
+                <option value="">整个账户</option>
+                {assets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            {showPortfolio && !asset && (
+                <select value={portfolioId} onChange={(e) => setPortfolioId(e.target.value)} className={inputClass}>
+                    {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+            )}
+            <input
+                type="number"
+                step="any"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="金额"
+                className={`${inputClass} w-32 text-right font-mono`}
+            />
+            <input
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                className={`${inputClass} w-16 font-mono uppercase`}
+            />
+            <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="备注" className={`${inputClass} w-40`} />
+            <button onClick={handleAdd} className="flex items-center text-gold-400 hover:text-gold-300">
+                <Plus size={16} className="mr-1" /> 记一笔
+            </button>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+                <thead className="text-gray-400 text-xs tracking-wider">
+                    <tr>
+                        <th className="p-2">日期</th>
+                        <th className="p-2">类型</th>
+                        <th className="p-2">资产</th>
+                        <th className="p-2 text-right">金额</th>
+                        <th className="p-2">备注</th>
+                        <th className="p-2"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-800">
+                    {visible.length === 0 ? (
+                        <tr>
+                            <td colSpan={6} className="p-4 text-center text-gray-500">暂无交易记录</td>
+                        </tr>
+                    ) : visible.map(t => (
+                        <tr key={t.id}>
+                            <td className="p-2 font-mono text-gray-300">{t.date}</td>
+                            <td className="p-2 text-gray-200">
+                                {TransactionTypeLabelMap[t.type]}
+                                {t.source === 'inferred' && <span className="ml-2 text-xs text-gray-500">推断</span>}
+                            </td>
+                            <td className="p-2 text-gray-300">
+                                {assetName(t.assetId)}
+                                {showPortfolio && <span className="ml-2 text-xs text-gray-500">{portfolioName(portfolios, t.portfolioId)}</span>}
+                            </td>
+                            <td className="p-2 text-right font-mono text-gray-200">
+                                {maskAmount(t.amount.toLocaleString(undefined, { maximumFractionDigits: 2 }), privacy)} <span className="text-xs text-gray-500">{t.currency}</span>
+                                {t.quantity !== undefined && <div className="text-xs text-gray-500">{maskAmount(t.quantity.toLocaleString(), privacy)} 份</div>}
+                            </td>
+                            <td className="p-2 text-gray-500">{t.note}</td>
+                            <td className="p-2 text-right">
+                                <button onClick={() => onRemove(t.id)} className="p-1 text-gray-500 hover:text-red-400" title="删除">
+                                    <Trash2 size={14} />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Check, X } from './IconComponents';
+import { UploadJob, UploadJobStatus } from '../types';
+
+interface UploadQueueProps {
+  jobs: UploadJob[];
+  onDismiss: () => void;
+}
+
+const StatusText: Record<UploadJobStatus, string> = {
+  queued: '等待中',
+  processing: '识别中...',
+  done: '完成',
+  failed: '失败'
+};
+
+export const UploadQueue: React.FC<UploadQueueProps> = ({ jobs, onDismiss }) => {
+  const finished = jobs.filter(j => j.status === 'done' || j.status === 'failed').length;
+  const isRunning = finished < jobs.length;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-80 glass-panel bg-obsidian-900 rounded-2xl p-4 space-y-3 shadow-xl">
+        <div className="flex justify-between items-center">
+            <span className="text-sm font-bold text-white">截图识别 {finished}/{jobs.length}</span>
+            {!isRunning && (
+                <button onClick={onDismiss} className="text-gray-500 hover:text-white" title="关闭">
+                    <X size={16} />
+                </button>
+            )}
+        </div>
+        <div className="h-1 bg-neutral-800 rounded-full overflow-hidden">
+            <div className="h-full bg-gold-500 transition-all" style={{ width: `${(finished / jobs.length) * 100}%` }} />
+        </div>
+        <ul className="space-y-2 max-h-60 overflow-y-auto text-xs">
+            {jobs.map(job => (
+                <li key={job.id}>
+                    <div className="flex justify-between items-center">
+                        <span className="truncate text-gray-300 mr-2">{job.fileName}</span>
+                        <span className={`flex items-center whitespace-nowrap ${
+                          job.status === 'failed' ? 'text-red-400' : job.status === 'done' ? 'text-green-400' : 'text-gray-500'
+                        }`}>
+                            {job.status === 'processing' && (
+                                <span className="w-3 h-3 border-2 border-gold-400 border-t-transparent rounded-full animate-spin mr-1"></span>
+                            )}
+                            {job.status === 'done' && <Check size={12} className="mr-1" />}
+                            {StatusText[job.status]}
+                            {job.status === 'done' && ` · ${job.rowCount} 条`}
+                            {job.status === 'done' && (job.tileCount || 0) > 1 && `（${job.tileCount} 段）`}
+                        </span>
+                    </div>
+                    {job.error && <div className="text-red-400/80 mt-1">{job.error}</div>}
+                    {job.warnings?.map((w, i) => (
+                        <div key={i} className="text-yellow-500/80 mt-1">{w.message}</div>
+                    ))}
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+};
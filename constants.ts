@@ -0,0 +1,11 @@
+import { AssetCategory } from './types';
+
+// Category Display Map
+export const CategoryDisplayMap: Record<string, string> = {
+  [AssetCategory.STOCK]: '股票',
+  [AssetCategory.FUND]: '基金',
+  [AssetCategory.BOND]: '债券',
+  [AssetCategory.CRYPTO]: '数字货币',
+  [AssetCategory.CASH]: '现金',
+  [AssetCategory.OTHER]: '其他'
+};
@@ -0,0 +1,76 @@
+import { AiProvider, AnalysisResult, Asset, ExtractionResult, FxSettings, ImagePart, ProviderConfig, ProviderKind, RiskMetrics } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openaiProvider";
+import { createMockProvider } from "./mockProvider";
+import { buildRepairFeedback, validateAnalysis, validateExtractedHoldings } from "./validationService";
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'openai', 'mock'];
+
+const envKind = process.env.AI_PROVIDER as ProviderKind | undefined;
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: envKind && PROVIDER_KINDS.includes(envKind) ? envKind : 'gemini',
+  geminiModel: 'gemini-2.5-flash',
+  openaiBaseUrl: 'http://localhost:11434/v1',
+  openaiApiKey: '',
+  openaiModel: 'qwen2.5vl'
+};
+
+export const ProviderLabelMap: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容接口',
+  mock: '本地模拟（离线）'
+};
+
+export const createProvider = (config: ProviderConfig): AiProvider => {
+  switch (config.kind) {
+    case 'openai':
+      return createOpenAiProvider(config.openaiBaseUrl, config.openaiApiKey, config.openaiModel);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config.geminiModel);
+  }
+};
+
+// Reads a screenshot through the provider and validates the rows. If the
+// response is malformed the model is asked once more with the problems listed;
+// whatever still fails after that is dropped and reported as a warning.
+export const extractHoldings = async (provider: AiProvider, image: ImagePart): Promise<ExtractionResult> => {
+  let raw = await provider.extractHoldings(image);
+  let result = validateExtractedHoldings(raw);
+  let retried = false;
+  if (result.errors.length > 0) {
+    retried = true;
+    const retryRaw = await provider.extractHoldings(image, buildRepairFeedback(result.errors));
+    const retry = validateExtractedHoldings(retryRaw);
+    // Keep the first answer if the retry is no better
+    if (retry.errors.length <= result.errors.length) {
+      result = retry;
+      raw = retryRaw;
+    }
+  }
+  return {
+    holdings: result.value,
+    warnings: result.errors.map(message => ({ message: `已忽略：${message}` })),
+    retried,
+    raw
+  };
+};
+
+export const analyzePortfolio = async (provider: AiProvider, assets: Asset[], fx: FxSettings, risk?: RiskMetrics): Promise<AnalysisResult> => {
+  let result = validateAnalysis(await provider.analyzePortfolio(assets, fx, risk), assets);
+  let retried = false;
+  if (result.errors.length > 0) {
+    retried = true;
+    const retry = validateAnalysis(await provider.analyzePortfolio(assets, fx, risk, buildRepairFeedback(result.errors)), assets);
+    if (retry.value && retry.errors.length <= result.errors.length) result = retry;
+  }
+  if (!result.value) throw new Error(`Invalid analysis response: ${result.errors.join('; ')}`);
+  return {
+    analysis: result.value,
+    warnings: [...result.warnings, ...result.errors.map(message => ({ message }))],
+    retried
+  };
+};
@@ -0,0 +1,151 @@
+import { AlertEvent, AlertRule, AlertRuleKind, AlertTrigger, Asset, AssetCategory, FxSettings, HistoryPoint } from "../types";
+import { CategoryDisplayMap } from "../constants";
+import { assetBaseAmount } from "./fxService";
+import { filterByPortfolio } from "./portfolioService";
+import { selectValueSeries } from "./performanceService";
+
+// Oldest alerts are dropped beyond this
+export const MAX_ALERTS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AlertRuleKindLabelMap: Record<AlertRuleKind, string> = {
+  returnRate: '收益率阈值',
+  categoryWeight: '类别占比区间',
+  drawdown: '净值回撤',
+  stale: '持仓久未更新'
+};
+
+export const AlertTriggerLabelMap: Record<AlertTrigger, string> = {
+  upload: '截图导入',
+  revaluation: '行情更新'
+};
+
+export const createAlertRule = (fields: Omit<AlertRule, 'id' | 'enabled' | 'active' | 'createdAt'>): AlertRule => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  enabled: true,
+  active: [],
+  createdAt: new Date().toISOString()
+});
+
+export const validateAlertRule = (rule: Pick<AlertRule, 'kind' | 'threshold' | 'min' | 'max' | 'category'>): string | null => {
+  if (!isFinite(rule.threshold)) return '阈值无效';
+  if (rule.kind === 'drawdown' && (rule.threshold <= 0 || rule.threshold >= 100)) return '回撤须在 0 到 100 之间';
+  if (rule.kind === 'stale' && rule.threshold < 1) return '天数至少为 1';
+  if (rule.kind === 'categoryWeight') {
+    if (!rule.category) return '请选择类别';
+    const min = rule.min ?? 0;
+    const max = rule.max ?? 100;
+    if (!isFinite(min) || !isFinite(max) || min < 0 || max > 100 || min > max) return '占比区间无效';
+  }
+  return null;
+};
+
+// One line describing the rule, for the rules list
+export const describeAlertRule = (rule: AlertRule, assets: Asset[]): string => {
+  switch (rule.kind) {
+    case 'returnRate': {
+      const subject = rule.assetId ? assets.find(a => a.id === rule.assetId)?.name || '已删除资产' : '任一持仓';
+      return `${subject}收益率${rule.direction === 'below' ? '低于' : '高于'} ${rule.threshold}%`;
+    }
+    case 'categoryWeight':
+      return `${CategoryDisplayMap[rule.category!] || rule.category}占比超出 ${rule.min ?? 0}%–${rule.max ?? 100}%`;
+    case 'drawdown':
+      return `总净值较峰值回落超过 ${rule.threshold}%`;
+    case 'stale':
+      return `持仓超过 ${rule.threshold} 天未更新`;
+  }
+};
+
+// Subjects currently breaching the rule, each with a message
+const breaches = (rule: AlertRule, assets: Asset[], history: HistoryPoint[], fx: FxSettings, now: Date): Map<string, string> => {
+  const found = new Map<string, string>();
+  const held = filterByPortfolio(assets, rule.portfolioId);
+
+  switch (rule.kind) {
+    case 'returnRate':
+      held
+        .filter(a => !rule.assetId || a.id === rule.assetId)
+        .filter(a => rule.direction === 'below' ? a.returnRate <= rule.threshold : a.returnRate >= rule.threshold)
+        .forEach(a => found.set(a.id, `${a.name} 收益率 ${a.returnRate}%，${rule.direction === 'below' ? '低于' : '高于'} ${rule.threshold}%`));
+      break;
+
+    case 'categoryWeight': {
+      const total = held.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+      if (total <= 0 || !rule.category) break;
+      const value = held.filter(a => a.category === rule.category).reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+      const weight = value / total * 100;
+      if (weight < (rule.min ?? 0) || weight > (rule.max ?? 100)) {
+        const label = CategoryDisplayMap[rule.category] || rule.category;
+        found.set(rule.category, `${label}占比 ${weight.toFixed(1)}%，超出 ${rule.min ?? 0}%–${rule.max ?? 100}% 区间`);
+      }
+      break;
+    }
+
+    case 'drawdown': {
+      // Percentages only: the message may end up in a system notification
+      const current = held.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+      const peak = selectValueSeries(history, rule.portfolioId).reduce(
+        (best, p) => p.value > best.value ? p : best,
+        { date: '', value: current }
+      );
+      if (peak.value <= 0) break;
+      const drop = (1 - current / peak.value) * 100;
+      if (drop >= rule.threshold) {
+        found.set(rule.portfolioId, `总净值较 ${peak.date || '此前'} 的峰值回落 ${drop.toFixed(1)}%，超过 ${rule.threshold}%`);
+      }
+      break;
+    }
+
+    case 'stale':
+      held.forEach(a => {
+        const days = Math.floor((now.getTime() - Date.parse(a.lastUpdated)) / DAY_MS);
+        if (days >= rule.threshold) found.set(a.id, `${a.name} 已 ${days} 天未更新`);
+      });
+      break;
+  }
+  return found;
+};
+
+// Checks every enabled rule against the new state. A subject raises an alert
+// when it starts breaching; rules remember what is breaching so an ongoing
+// breach is not reported again on every upload.
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  assets: Asset[],
+  history: HistoryPoint[],
+  fx: FxSettings,
+  trigger: AlertTrigger,
+  now: Date = new Date()
+): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const events: AlertEvent[] = [];
+  const next = rules.map(rule => {
+    if (!rule.enabled) return rule;
+    const found = breaches(rule, assets, history, fx, now);
+    found.forEach((message, subject) => {
+      if (rule.active.includes(subject)) return;
+      events.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        subject,
+        message,
+        trigger,
+        createdAt: now.toISOString(),
+        read: false
+      });
+    });
+    return { ...rule, active: Array.from(found.keys()) };
+  });
+  return { rules: next, events };
+};
+
+// Newest first, capped at MAX_ALERTS
+export const appendAlerts = (alerts: AlertEvent[], events: AlertEvent[]): AlertEvent[] =>
+  [...events, ...alerts].slice(0, MAX_ALERTS);
+
+// Shows alerts as system notifications when the user has allowed it
+export const notifyBrowser = (events: AlertEvent[]) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  events.forEach(e => new Notification('财富管家提醒', { body: e.message, tag: e.id }));
+};
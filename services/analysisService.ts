@@ -0,0 +1,172 @@
+import {
+  ALL_PORTFOLIOS_ID,
+  AiProvider,
+  AnalysisDiff,
+  AnalysisRecord,
+  AnalysisResponse,
+  AnalysisSuggestion,
+  Asset,
+  DiversificationRating,
+  FxSettings,
+  HoldingChange,
+  SuggestionAction,
+  SuggestionFollowUp,
+  SuggestionPriority,
+  SuggestionStatus,
+  ValidationWarning
+} from "../types";
+import { buildSnapshot, rebaseSnapshot, toDateKey } from "./snapshotService";
+
+export const SuggestionActionLabelMap: Record<SuggestionAction, string> = {
+  buy: '买入',
+  sell: '卖出',
+  hold: '持有',
+  rebalance: '再平衡',
+  review: '关注'
+};
+
+export const SuggestionPriorityLabelMap: Record<SuggestionPriority, string> = {
+  high: '高',
+  medium: '中',
+  low: '低'
+};
+
+export const DiversificationRatingLabelMap: Record<DiversificationRating, string> = {
+  good: '良好',
+  fair: '一般',
+  poor: '较差'
+};
+
+const PRIORITY_ORDER: SuggestionPriority[] = ['high', 'medium', 'low'];
+
+export const isStructuredAnalysis = (value: unknown): value is AnalysisResponse =>
+  !!value && typeof value === 'object' && Array.isArray((value as AnalysisResponse).suggestions);
+
+// The shape reports had before analyses were structured
+interface ProseAnalysis {
+  assetAllocationAnalysis?: string;
+  investmentAdvice?: string;
+  adjustmentSuggestions?: string;
+}
+
+const PROSE_FIELDS: (keyof ProseAnalysis)[] = ['assetAllocationAnalysis', 'investmentAdvice', 'adjustmentSuggestions'];
+
+// Brings an analysis of either shape to the current one. The prose of an old
+// report becomes its summary, with no suggestions and an unknown (0) risk
+// score. Null when the value is neither.
+export const upgradeAnalysis = (value: unknown): AnalysisResponse | null => {
+  if (isStructuredAnalysis(value)) return value;
+  if (!value || typeof value !== 'object') return null;
+  const prose = PROSE_FIELDS
+    .map(field => (value as ProseAnalysis)[field])
+    .filter((text): text is string => typeof text === 'string' && text.trim() !== '');
+  if (prose.length === 0) return null;
+  return { riskScore: 0, summary: prose.join('\n\n'), concentrationWarnings: [], suggestions: [], diversification: [] };
+};
+
+// A stored report with its analysis upgraded; anything unrecognisable is returned as it was
+export const upgradeReport = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value;
+  const analysis = upgradeAnalysis((value as AnalysisRecord).analysis);
+  return analysis ? { ...value, analysis } : value;
+};
+
+export const setSuggestionStatus = (analysis: AnalysisResponse, id: string, status: SuggestionStatus): AnalysisResponse => ({
+  ...analysis,
+  suggestions: analysis.suggestions.map(s => s.id === id ? { ...s, status } : s)
+});
+
+// Open suggestions first, then by priority; the model's order breaks ties
+export const sortSuggestions = (analysis: AnalysisResponse) =>
+  [...analysis.suggestions].sort((a, b) =>
+    Number(a.status !== 'open') - Number(b.status !== 'open') ||
+    PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+  );
+
+export const SuggestionFollowUpLabelMap: Record<SuggestionFollowUp, string> = {
+  followed: '已执行',
+  'not-followed': '未执行',
+  unknown: '无法判断'
+};
+
+export const createAnalysisRecord = (
+  analysis: AnalysisResponse,
+  warnings: ValidationWarning[],
+  holdings: Asset[],
+  portfolioId: string,
+  provider: AiProvider,
+  fx: FxSettings
+): AnalysisRecord => {
+  const createdAt = new Date();
+  return {
+    id: crypto.randomUUID(),
+    createdAt: createdAt.toISOString(),
+    portfolioId,
+    provider: provider.kind,
+    model: provider.model,
+    holdings,
+    snapshot: buildSnapshot(toDateKey(createdAt), holdings, fx),
+    analysis,
+    warnings: warnings.length > 0 ? warnings : undefined
+  };
+};
+
+// Wraps the report kept under the old single-report key. What it was based on
+// wasn't stored, so it carries no holdings and an empty snapshot.
+export const carryOverSingleReport = (analysis: AnalysisResponse, fx: FxSettings): AnalysisRecord => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  portfolioId: ALL_PORTFOLIOS_ID,
+  holdings: [],
+  snapshot: buildSnapshot(toDateKey(), [], fx),
+  analysis
+});
+
+// Reports for one portfolio view, newest first
+export const selectReports = (records: AnalysisRecord[], portfolioId: string): AnalysisRecord[] =>
+  records
+    .filter(r => r.portfolioId === portfolioId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const updateRecordSuggestion = (records: AnalysisRecord[], recordId: string, suggestionId: string, status: SuggestionStatus): AnalysisRecord[] =>
+  records.map(r => r.id === recordId ? { ...r, analysis: setSuggestionStatus(r.analysis, suggestionId, status) } : r);
+
+// Whether the holdings moved the way a suggestion asked. Only buys and sells of
+// a specific holding can be checked against the snapshots.
+const followUpOf = (suggestion: AnalysisSuggestion, before: Record<string, number>, after: Record<string, number>): SuggestionFollowUp => {
+  if (!suggestion.assetId || (suggestion.action !== 'buy' && suggestion.action !== 'sell')) return 'unknown';
+  const was = before[suggestion.assetId] || 0;
+  const now = after[suggestion.assetId] || 0;
+  const followed = suggestion.action === 'buy' ? now > was : now < was;
+  return followed ? 'followed' : 'not-followed';
+};
+
+// Compares two reports, both valued in fx.baseCurrency
+export const diffAnalysisRecords = (older: AnalysisRecord, newer: AnalysisRecord, fx: FxSettings): AnalysisDiff => {
+  const from = rebaseSnapshot(older.snapshot, fx.baseCurrency, fx);
+  const to = rebaseSnapshot(newer.snapshot, fx.baseCurrency, fx);
+  const before = from.assetValues || {};
+  const after = to.assetValues || {};
+  const weight = (value: number | undefined, total: number) => total > 0 && value ? (value / total) * 100 : 0;
+
+  const names = new Map<string, string>();
+  [...older.holdings, ...newer.holdings].forEach(a => names.set(a.id, a.name));
+  const holdings: HoldingChange[] = Array.from(names.entries())
+    .map(([assetId, name]) => ({
+      assetId,
+      name,
+      before: before[assetId],
+      after: after[assetId],
+      beforeWeight: weight(before[assetId], from.totalNetWorth),
+      afterWeight: weight(after[assetId], to.totalNetWorth)
+    }))
+    .sort((a, b) => Math.abs(b.afterWeight - b.beforeWeight) - Math.abs(a.afterWeight - a.beforeWeight));
+
+  return {
+    // A score of 0 is unknown, as in reports carried over from the prose format
+    riskScoreChange: newer.analysis.riskScore > 0 && older.analysis.riskScore > 0 ? newer.analysis.riskScore - older.analysis.riskScore : 0,
+    totalValueChange: to.totalNetWorth - from.totalNetWorth,
+    holdings,
+    followUps: older.analysis.suggestions.map(suggestion => ({ suggestion, followUp: followUpOf(suggestion, before, after) }))
+  };
+};
@@ -0,0 +1,112 @@
+import { Asset, AssetAlias, AssetDraft, AssetMatch } from "../types";
+import { toHalfWidth } from "./textUtils";
+
+// Confidence at or above which a match is applied without asking the user
+export const AUTO_MATCH_CONFIDENCE = 0.9;
+// Confidence at or above which an asset is offered as a suggestion
+export const SUGGEST_MATCH_CONFIDENCE = 0.5;
+
+// Pulls a ticker/fund code out of a string such as "贵州茅台(600519)", "SH600519" or "00700.HK"
+export const normalizeCode = (code?: string): string | undefined => {
+  if (!code) return undefined;
+  const cleaned = toHalfWidth(code).toUpperCase().replace(/\s/g, '');
+  const digits = cleaned.match(/\d{5,6}/);
+  if (digits) return digits[0];
+  const ticker = cleaned.replace(/\.(US|N|O|OQ|NASDAQ|NYSE)$/, '').match(/^[A-Z]{1,5}$/);
+  return ticker ? ticker[0] : undefined;
+};
+
+const extractCodeFromName = (name: string): string | undefined => {
+  const match = toHalfWidth(name).match(/[(\[]\s*([A-Za-z]{0,2}\d{5,6}(?:\.[A-Za-z]{2})?)\s*[)\]]/);
+  return match ? normalizeCode(match[1]) : undefined;
+};
+
+export const normalizeAssetName = (name: string): string =>
+  toHalfWidth(name)
+    .replace(/[(\[][^)\]]*[)\]]/g, '') // bracketed codes and notes
+    .replace(/(\.{2,}|…+)$/, '') // truncation marks
+    .replace(/[\s\-_·.,/]/g, '')
+    .toLowerCase();
+
+const bigrams = (text: string): string[] => {
+  if (text.length < 2) return [text];
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) grams.push(text.slice(i, i + 2));
+  return grams;
+};
+
+// Dice coefficient over character bigrams, with a boost for truncated names
+export const nameSimilarity = (a: string, b: string): number => {
+  const x = normalizeAssetName(a);
+  const y = normalizeAssetName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  const gx = bigrams(x);
+  const gy = bigrams(y);
+  const pool = [...gy];
+  let overlap = 0;
+  gx.forEach(g => {
+    const i = pool.indexOf(g);
+    if (i >= 0) {
+      overlap++;
+      pool.splice(i, 1);
+    }
+  });
+  const dice = (2 * overlap) / (gx.length + gy.length);
+
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  const truncated = shorter.length >= 4 && longer.startsWith(shorter);
+  return truncated ? Math.max(dice, 0.85) : dice;
+};
+
+export const assetCode = (asset: Pick<Asset, 'name' | 'code'>): string | undefined =>
+  normalizeCode(asset.code) || extractCodeFromName(asset.name);
+
+// Key under which the same holding seen in two overlapping screenshots collapses
+export const assetIdentityKey = (asset: Pick<Asset, 'name' | 'code'>): string => {
+  const code = assetCode(asset);
+  return code ? `code:${code}` : `name:${normalizeAssetName(asset.name)}`;
+};
+
+// Ranks existing assets against an extracted row: code first, then confirmed
+// aliases, then exact and fuzzy name similarity. Assets whose code conflicts
+// with the row's code are never returned.
+export const rankAssetMatches = (draft: AssetDraft, assets: Asset[], aliases: AssetAlias[]): AssetMatch[] => {
+  const code = assetCode(draft);
+  const normalized = normalizeAssetName(draft.name);
+  const aliasIds = new Set(aliases.filter(a => a.alias === normalized).map(a => a.assetId));
+
+  const matches: AssetMatch[] = [];
+  assets.forEach(asset => {
+    const otherCode = assetCode(asset);
+    if (code && otherCode) {
+      if (code === otherCode) matches.push({ assetId: asset.id, method: 'code', confidence: 1 });
+      return;
+    }
+    if (aliasIds.has(asset.id)) {
+      matches.push({ assetId: asset.id, method: 'alias', confidence: 1 });
+      return;
+    }
+    if (asset.name === draft.name) {
+      matches.push({ assetId: asset.id, method: 'exact', confidence: 1 });
+      return;
+    }
+    const confidence = nameSimilarity(draft.name, asset.name);
+    if (confidence >= SUGGEST_MATCH_CONFIDENCE) {
+      matches.push({ assetId: asset.id, method: 'fuzzy', confidence });
+    }
+  });
+
+  return matches.sort((a, b) => b.confidence - a.confidence);
+};
+
+// Returns the alias table with `name` recorded as belonging to `assetId`
+export const rememberAlias = (aliases: AssetAlias[], name: string, assetId: string): AssetAlias[] => {
+  const alias = normalizeAssetName(name);
+  if (!alias) return aliases;
+  return [
+    ...aliases.filter(a => a.alias !== alias),
+    { alias, assetId, createdAt: new Date().toISOString() }
+  ];
+};
@@ -0,0 +1,63 @@
+import { Asset, AssetCategory, AssetDraft } from "../types";
+import { normalizeCurrency } from "./fxService";
+
+// Number of destructive operations that can be undone
+export const MAX_UNDO_STEPS = 5;
+
+export const EMPTY_DRAFT: AssetDraft = {
+  name: '',
+  category: AssetCategory.STOCK,
+  amount: 0,
+  returnRate: 0,
+  currency: 'CNY'
+};
+
+export const validateDraft = (draft: AssetDraft): string | null => {
+  if (!draft.name.trim()) return '名称不能为空';
+  if (!Object.values(AssetCategory).includes(draft.category)) return '类别无效';
+  if (!isFinite(draft.amount) || draft.amount < 0) return '金额无效';
+  if (!isFinite(draft.returnRate)) return '收益率无效';
+  if (draft.quantity !== undefined && (!isFinite(draft.quantity) || draft.quantity < 0)) return '数量无效';
+  if (draft.costBasis !== undefined && (!isFinite(draft.costBasis) || draft.costBasis < 0)) return '成本无效';
+  if (!draft.currency.trim()) return '货币不能为空';
+  return null;
+};
+
+export const assetToDraft = ({ id, lastUpdated, portfolioId, ...draft }: Asset): AssetDraft => draft;
+
+export const createAsset = (draft: AssetDraft, portfolioId: string): Asset => ({
+  ...draft,
+  name: draft.name.trim(),
+  currency: normalizeCurrency(draft.currency),
+  id: crypto.randomUUID(),
+  portfolioId,
+  lastUpdated: new Date().toISOString()
+});
+
+export const updateAsset = (assets: Asset[], id: string, draft: AssetDraft): Asset[] =>
+  assets.map(a => a.id === id
+    ? {
+        ...a,
+        ...draft,
+        name: draft.name.trim(),
+        currency: normalizeCurrency(draft.currency),
+        lastUpdated: new Date().toISOString(),
+        // A value typed in by hand is no longer the screenshot's or the market's
+        valuation: draft.amount === a.amount ? a.valuation : undefined
+      }
+    : a
+  );
+
+export const deleteAssets = (assets: Asset[], ids: string[]): Asset[] =>
+  assets.filter(a => !ids.includes(a.id));
+
+// Total cost of a holding in its own currency. Without a recorded cost basis it
+// is backed out of the return rate the app reported.
+export const assetCostBasis = (asset: Pick<Asset, 'amount' | 'returnRate' | 'costBasis'>): number => {
+  if (asset.costBasis !== undefined) return asset.costBasis;
+  return asset.returnRate > -100 ? asset.amount / (1 + asset.returnRate / 100) : 0;
+};
+
+// Unrealized gain or loss of a holding in its own currency
+export const assetUnrealizedPnl = (asset: Pick<Asset, 'amount' | 'returnRate' | 'costBasis'>): number =>
+  asset.amount - assetCostBasis(asset);
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetCategory, BackupData, HistoryPoint } from '../types';
+import { BACKUP_VERSION, createBackup, parseBackup, planRestore } from './backupService';
+
+const asset = (id: string, amount: number): Asset => ({
+  id, name: `资产 ${id}`, category: AssetCategory.STOCK, amount, returnRate: 0, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z'
+});
+
+const point = (date: string, totalNetWorth: number, currency = 'CNY'): HistoryPoint => ({ date, totalNetWorth, totalReturnRate: 0, currency });
+
+// A fully populated state, by way of an empty backup
+const emptyData = (): BackupData => parseBackup(JSON.stringify({ format: 'aurum-backup', version: BACKUP_VERSION, data: {} })).backup.data;
+
+const stateWith = (fields: Partial<BackupData>): BackupData => ({ ...emptyData(), ...fields });
+
+const roundTrip = (data: BackupData) => parseBackup(JSON.stringify(createBackup(data)));
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote, without the API key', () => {
+    const data = stateWith({ assets: [asset('a', 100)], history: [point('2024-01-01', 100)] });
+    data.provider = { ...data.provider, openaiApiKey: 'sk-secret' };
+    const { backup, fromVersion, warnings, rejected } = roundTrip(data);
+    expect(fromVersion).toBe(BACKUP_VERSION);
+    expect(warnings).toEqual([]);
+    expect(rejected).toEqual([]);
+    expect(backup.data.assets).toEqual(data.assets);
+    expect(backup.data.history).toEqual(data.history);
+    expect(backup.data.provider.openaiApiKey).toBe('');
+  });
+
+  it('migrates a bare version 1 export and carries over its single report', () => {
+    const legacy = {
+      assets: [asset('a', 100)],
+      history: [point('2024-01-01', 100)],
+      analysis: { assetAllocationAnalysis: '股票占比偏高', investmentAdvice: '分散投资', adjustmentSuggestions: '' }
+    };
+    const { backup, fromVersion, warnings } = parseBackup(JSON.stringify(legacy));
+    expect(fromVersion).toBe(1);
+    expect(warnings).toEqual([]);
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.data.assets).toHaveLength(1);
+    expect(backup.data.analyses).toHaveLength(1);
+    expect(backup.data.analyses[0].analysis).toMatchObject({ riskScore: 0, summary: '股票占比偏高\n\n分散投资', suggestions: [] });
+    expect(backup.data.portfolios).toHaveLength(1);
+  });
+
+  it('warns about an old report it cannot read', () => {
+    const { backup, warnings } = parseBackup(JSON.stringify({ assets: [], analysis: 'just text' }));
+    expect(backup.data.analyses).toEqual([]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('drops and reports records that fail validation', () => {
+    const { backup, warnings, rejected } = parseBackup(JSON.stringify({
+      format: 'aurum-backup',
+      version: BACKUP_VERSION,
+      data: {
+        assets: [asset('a', 100), { name: 'no id', amount: 1 }, { id: 'b', name: 'no amount' }],
+        history: [point('2024-01-01', 100), { totalNetWorth: 5 }],
+        transactions: 'not a list'
+      }
+    }));
+    expect(backup.data.assets.map(a => a.id)).toEqual(['a']);
+    expect(backup.data.history).toHaveLength(1);
+    expect(backup.data.transactions).toEqual([]);
+    expect(rejected.map(r => r.list)).toEqual(['assets', 'assets', 'history', 'transactions']);
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toContain('no id');
+  });
+
+  it('rejects files that are not backups or come from a newer version', () => {
+    expect(() => parseBackup('not json')).toThrow('JSON');
+    expect(() => parseBackup(JSON.stringify({ format: 'other', data: {} }))).toThrow();
+    expect(() => parseBackup(JSON.stringify({ format: 'aurum-backup', data: null }))).toThrow();
+    expect(() => parseBackup(JSON.stringify({ format: 'aurum-backup', version: BACKUP_VERSION + 1, data: {} }))).toThrow(`v${BACKUP_VERSION + 1}`);
+  });
+});
+
+describe('planRestore', () => {
+  const current = () => {
+    const data = stateWith({ assets: [asset('a', 100), asset('local', 50)], history: [point('2024-01-01', 150)] });
+    data.provider = { ...data.provider, openaiApiKey: 'sk-local' };
+    data.fx = { ...data.fx, rates: { ...data.fx.rates, USD: 7 } };
+    return data;
+  };
+  const incoming = () => {
+    const data = stateWith({ assets: [asset('a', 120), asset('new', 10)], history: [point('2024-01-02', 130)] });
+    data.fx = { ...data.fx, rates: { ...data.fx.rates, USD: 7.3 } };
+    return roundTrip(data);
+  };
+
+  it('merges by id, with the backup winning clashes', () => {
+    const { backup, fromVersion } = incoming();
+    const plan = planRestore(current(), backup, 'merge', fromVersion);
+    expect(plan.data.assets.map(a => [a.id, a.amount])).toEqual([['local', 50], ['a', 120], ['new', 10]]);
+    expect(plan.counts.assets).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 0 });
+    expect(plan.data.history.map(p => p.date)).toEqual(['2024-01-01', '2024-01-02']);
+    // Merging keeps local settings
+    expect(plan.settingsReplaced).toBe(false);
+    expect(plan.data.fx.rates.USD).toBe(7);
+  });
+
+  it('replaces everything but the local API key', () => {
+    const { backup, fromVersion } = incoming();
+    const plan = planRestore(current(), backup, 'replace', fromVersion);
+    expect(plan.data.assets.map(a => a.id)).toEqual(['a', 'new']);
+    expect(plan.counts.assets).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 1 });
+    expect(plan.counts.history).toEqual({ added: 1, updated: 0, unchanged: 0, removed: 1 });
+    expect(plan.data.fx.rates.USD).toBe(7.3);
+    expect(plan.data.provider.openaiApiKey).toBe('sk-local');
+  });
+
+  it('rebases merged snapshots into the local base currency', () => {
+    const data = stateWith({ history: [point('2024-01-02', 100, 'USD')] });
+    data.fx = { baseCurrency: 'USD', rates: { USD: 1, CNY: 1 / 7 } };
+    const { backup, fromVersion } = roundTrip(data);
+    const plan = planRestore(current(), backup, 'merge', fromVersion);
+    const merged = plan.data.history.find(p => p.date === '2024-01-02')!;
+    expect(merged.currency).toBe('CNY');
+    expect(merged.totalNetWorth).toBeCloseTo(700, 6);
+  });
+
+  it('converts rates learned from a backup with another base currency', () => {
+    const data = emptyData();
+    data.fx = { baseCurrency: 'USD', rates: { USD: 1, CNY: 1 / 7, EUR: 1.08 } };
+    const { backup, fromVersion } = roundTrip(data);
+    const plan = planRestore(current(), backup, 'merge', fromVersion);
+    expect(plan.data.fx.baseCurrency).toBe('CNY');
+    expect(plan.data.fx.rates.EUR).toBeCloseTo(7.56, 6);
+    expect(plan.data.fx.rates.USD).toBe(7);
+    expect(plan.data.fx.rates.CNY).toBe(1);
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  AnalysisRecord,
+  BackupData,
+  BackupFile,
+  HistoryPoint,
+  RestoreCount,
+  RestoreMode,
+  RestorePlan
+} from "../types";
+import { DEFAULT_FX_SETTINGS, rebaseFxSettings } from "./fxService";
+import { DEFAULT_PREPROCESS_SETTINGS } from "./imageService";
+import { DEFAULT_PROVIDER_CONFIG } from "./aiProvider";
+import { DEFAULT_PORTFOLIO } from "./portfolioService";
+import { DEFAULT_RISK_SETTINGS } from "./riskService";
+import { DEFAULT_PLANNING_SETTINGS } from "./planningService";
+import { DEFAULT_PRICE_FEED_SETTINGS } from "./priceService";
+import { rebaseSnapshot } from "./snapshotService";
+import { carryOverSingleReport, upgradeAnalysis, upgradeReport } from "./analysisService";
+import { isAsset, isObject, isReport, isShaped, isSnapshot } from "./storageService";
+
+// Bump when BackupData changes shape, and add a step to BACKUP_MIGRATIONS
+export const BACKUP_VERSION = 2;
+
+export const RestoreModeLabelMap: Record<RestoreMode, string> = {
+  merge: '合并（保留本地独有的记录）',
+  replace: '替换（以备份为准）'
+};
+
+type RecordListKey = keyof RestorePlan['counts'];
+
+export const RecordListLabelMap: Record<RecordListKey, string> = {
+  assets: '持仓',
+  history: '净值快照',
+  analyses: '分析报告',
+  transactions: '交易流水',
+  portfolios: '账户',
+  aliases: '资产别名',
+  chats: '对话',
+  scenarios: '情景模拟',
+  goals: '财务目标',
+  alertRules: '提醒规则',
+  alerts: '提醒记录'
+};
+
+// A record left out of a restore because it failed validation
+export interface RejectedRecord {
+  list: RecordListKey;
+  value: unknown;
+}
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  format: 'aurum-backup',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: { ...data, provider: { ...data.provider, openaiApiKey: '' } }
+});
+
+// Each step takes a backup's data at version n and returns it at n + 1.
+// Version 1 is the original three-key store: { assets, history, analysis }.
+const BACKUP_MIGRATIONS: Record<number, (data: any, warnings: string[]) => any> = {
+  1: (data, warnings) => {
+    const { analysis, ...rest } = data;
+    let analyses: AnalysisRecord[] = [];
+    const upgraded = upgradeAnalysis(analysis);
+    if (upgraded) {
+      analyses = [carryOverSingleReport(upgraded, data.fx || DEFAULT_FX_SETTINGS)];
+    } else if (analysis) {
+      warnings.push('旧版分析报告格式无法识别，已跳过。');
+    }
+    return { ...rest, analyses };
+  }
+};
+
+// How a rejected record is named in a warning
+const recordLabel = (value: unknown): string =>
+  isObject(value) ? String(value.name ?? value.date ?? value.id ?? '?') : JSON.stringify(value) ?? String(value);
+
+// Keeps the records that pass the same guard storage applies on load; the
+// rest are collected in `rejected` and named in `warnings`
+const validRecords = <T>(
+  list: RecordListKey,
+  value: unknown,
+  isValid: (item: unknown) => item is T,
+  warnings: string[],
+  rejected: RejectedRecord[]
+): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`备份中的${RecordListLabelMap[list]}格式无法识别，已跳过。`);
+    rejected.push({ list, value });
+    return [];
+  }
+  const bad = value.filter(item => !isValid(item));
+  if (bad.length > 0) {
+    const names = bad.slice(0, 3).map(recordLabel).join('、');
+    warnings.push(`备份中有 ${bad.length} 条${RecordListLabelMap[list]}无法识别，已跳过：${names}${bad.length > 3 ? ' 等' : ''}`);
+    bad.forEach(item => rejected.push({ list, value: item }));
+  }
+  return value.filter(isValid);
+};
+
+// Fills in anything an older or hand-edited backup left out, and drops records
+// that would not survive a load from storage
+const normalizeData = (data: any, warnings: string[], rejected: RejectedRecord[]): BackupData => {
+  // Most lists are only checked for being objects, as storage checks them
+  const records = <K extends RecordListKey>(
+    list: K,
+    isValid: (item: unknown) => item is BackupData[K][number] = isShaped,
+    value: unknown = data[list]
+  ): BackupData[K][number][] => validRecords(list, value, isValid, warnings, rejected);
+  const portfolios = records('portfolios');
+  return {
+    assets: records('assets', isAsset),
+    history: records('history', isSnapshot),
+    // Prose-format reports are converted the way storage converts them
+    analyses: records('analyses', isReport, Array.isArray(data.analyses) ? data.analyses.map(upgradeReport) : data.analyses),
+    transactions: records('transactions'),
+    portfolios: portfolios.length > 0 ? portfolios : [DEFAULT_PORTFOLIO],
+    aliases: records('aliases'),
+    targets: data.targets && typeof data.targets === 'object' ? data.targets : {},
+    chats: records('chats'),
+    scenarios: records('scenarios'),
+    goals: records('goals'),
+    alertRules: records('alertRules'),
+    alerts: records('alerts'),
+    fx: { ...DEFAULT_FX_SETTINGS, ...data.fx },
+    preprocess: { ...DEFAULT_PREPROCESS_SETTINGS, ...data.preprocess },
+    provider: { ...DEFAULT_PROVIDER_CONFIG, ...data.provider },
+    risk: { ...DEFAULT_RISK_SETTINGS, ...data.risk },
+    planning: {
+      ...DEFAULT_PLANNING_SETTINGS,
+      ...data.planning,
+      assumptions: { ...DEFAULT_PLANNING_SETTINGS.assumptions, ...data.planning?.assumptions }
+    },
+    priceFeed: { ...DEFAULT_PRICE_FEED_SETTINGS, ...data.priceFeed }
+  };
+};
+
+// Reads a backup file, migrating it to BACKUP_VERSION. Throws with a message
+// fit for the user when the file is not a backup at all.
+export const parseBackup = (text: string): { backup: BackupFile; fromVersion: number; warnings: string[]; rejected: RejectedRecord[] } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON。');
+  }
+
+  // A bare export of the original localStorage keys has no envelope
+  const isLegacy = raw && raw.format === undefined && Array.isArray(raw.assets);
+  if (!isLegacy && (raw?.format !== 'aurum-backup' || !isObject(raw.data))) {
+    throw new Error('文件不是财富管家的备份。');
+  }
+  const fromVersion = isLegacy ? 1 : Number(raw.version) || 1;
+  if (fromVersion > BACKUP_VERSION) {
+    throw new Error(`备份来自更新的版本（v${fromVersion}），请先升级应用。`);
+  }
+
+  const warnings: string[] = [];
+  const rejected: RejectedRecord[] = [];
+  let data = isLegacy ? raw : raw.data;
+  for (let version = fromVersion; version < BACKUP_VERSION; version++) {
+    data = BACKUP_MIGRATIONS[version](data, warnings);
+  }
+
+  return {
+    backup: {
+      format: 'aurum-backup',
+      version: BACKUP_VERSION,
+      exportedAt: isLegacy ? '' : String(raw.exportedAt || ''),
+      data: normalizeData(data, warnings, rejected)
+    },
+    fromVersion,
+    warnings,
+    rejected
+  };
+};
+
+const emptyCount = (): RestoreCount => ({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+
+// Combines two record lists by key. The backup's copy wins on a clash; in
+// replace mode local records missing from the backup are dropped.
+const combine = <T>(current: T[], incoming: T[], keyOf: (item: T) => string, mode: RestoreMode): { items: T[]; count: RestoreCount } => {
+  const count = emptyCount();
+  const incomingByKey = new Map(incoming.map(item => [keyOf(item), item]));
+  const currentByKey = new Map(current.map(item => [keyOf(item), item]));
+
+  incoming.forEach(item => {
+    const existing = currentByKey.get(keyOf(item));
+    if (!existing) count.added++;
+    else if (JSON.stringify(existing) === JSON.stringify(item)) count.unchanged++;
+    else count.updated++;
+  });
+
+  const kept = current.filter(item => !incomingByKey.has(keyOf(item)));
+  if (mode === 'replace') {
+    count.removed = kept.length;
+    return { items: incoming, count };
+  }
+  return { items: [...kept, ...incoming], count };
+};
+
+// Works out the state a restore would produce without applying it, so the
+// user can review the counts first.
+export const planRestore = (current: BackupData, backup: BackupFile, mode: RestoreMode, fromVersion: number, warnings: string[] = []): RestorePlan => {
+  const incoming = backup.data;
+  const replace = mode === 'replace';
+
+  // Settings are only taken over on replace; a merge keeps local settings and
+  // only learns rates for currencies it has none for, converted to the local base
+  const fx = replace
+    ? incoming.fx
+    : { ...current.fx, rates: { ...rebaseFxSettings(incoming.fx, current.fx.baseCurrency).rates, ...current.fx.rates } };
+  const preprocess = replace ? incoming.preprocess : current.preprocess;
+  const risk = replace ? incoming.risk : current.risk;
+  const planning = replace ? incoming.planning : current.planning;
+  const priceFeed = replace ? incoming.priceFeed : current.priceFeed;
+  // The API key is never in a backup, so keep the local one
+  const provider = replace ? { ...incoming.provider, openaiApiKey: current.provider.openaiApiKey } : current.provider;
+
+  // Merged snapshots must be in the same currency as the local ones
+  const incomingHistory = replace
+    ? incoming.history
+    : incoming.history.map((point: HistoryPoint) => rebaseSnapshot(point, incoming.fx.baseCurrency, fx));
+
+  const assets = combine(current.assets, incoming.assets, a => a.id, mode);
+  const history = combine(current.history, incomingHistory, p => p.date, mode);
+  const analyses = combine(current.analyses, incoming.analyses, r => r.id, mode);
+  const transactions = combine(current.transactions, incoming.transactions, t => t.id, mode);
+  const portfolios = combine(current.portfolios, incoming.portfolios, p => p.id, mode);
+  const aliases = combine(current.aliases, incoming.aliases, a => a.alias, mode);
+  const chats = combine(current.chats, incoming.chats, c => c.id, mode);
+  const scenarios = combine(current.scenarios, incoming.scenarios, s => s.id, mode);
+  const goals = combine(current.goals, incoming.goals, g => g.id, mode);
+  const alertRules = combine(current.alertRules, incoming.alertRules, r => r.id, mode);
+  const alerts = combine(current.alerts, incoming.alerts, a => a.id, mode);
+
+  return {
+    mode,
+    fromVersion,
+    exportedAt: backup.exportedAt,
+    data: {
+      assets: assets.items,
+      history: [...history.items].sort((a, b) => a.date.localeCompare(b.date)),
+      analyses: analyses.items,
+      transactions: transactions.items,
+      portfolios: portfolios.items,
+      aliases: aliases.items,
+      targets: replace ? incoming.targets : { ...current.targets, ...incoming.targets },
+      chats: chats.items,
+      scenarios: scenarios.items,
+      goals: goals.items,
+      alertRules: alertRules.items,
+      alerts: [...alerts.items].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      fx,
+      preprocess,
+      provider,
+      risk,
+      planning,
+      priceFeed
+    },
+    counts: {
+      assets: assets.count,
+      history: history.count,
+      analyses: analyses.count,
+      transactions: transactions.count,
+      portfolios: portfolios.count,
+      aliases: aliases.count,
+      chats: chats.count,
+      scenarios: scenarios.count,
+      goals: goals.count,
+      alertRules: alertRules.count,
+      alerts: alerts.count
+    },
+    settingsReplaced: replace,
+    warnings
+  };
+};
+
+export const backupFileName = (extension: string, date: Date = new Date()): string =>
+  `aurum-backup-${date.toISOString().slice(0, 10)}.${extension}`;
+
+// Hands a generated file to the browser as a download
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,54 @@
+import { ChatMessage, ChatThread } from "../types";
+
+// Messages sent back to the model per turn; older ones are left out
+export const MAX_CHAT_CONTEXT_MESSAGES = 20;
+
+const TITLE_LENGTH = 24;
+
+export const createChatMessage = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  content,
+  createdAt: new Date().toISOString()
+});
+
+export const createChatThread = (portfolioId: string, firstQuestion: string): ChatThread => ({
+  id: crypto.randomUUID(),
+  portfolioId,
+  title: firstQuestion.trim().slice(0, TITLE_LENGTH),
+  createdAt: new Date().toISOString(),
+  messages: []
+});
+
+// Threads for one portfolio view, most recently active first
+export const selectThreads = (threads: ChatThread[], portfolioId: string): ChatThread[] => {
+  const lastActivity = (t: ChatThread) => t.messages[t.messages.length - 1]?.createdAt || t.createdAt;
+  return threads
+    .filter(t => t.portfolioId === portfolioId)
+    .sort((a, b) => lastActivity(b).localeCompare(lastActivity(a)));
+};
+
+export const upsertThread = (threads: ChatThread[], thread: ChatThread): ChatThread[] =>
+  threads.some(t => t.id === thread.id)
+    ? threads.map(t => t.id === thread.id ? thread : t)
+    : [...threads, thread];
+
+const updateMessage = (threads: ChatThread[], threadId: string, messageId: string, update: (m: ChatMessage) => ChatMessage): ChatThread[] =>
+  threads.map(t => t.id === threadId
+    ? { ...t, messages: t.messages.map(m => m.id === messageId ? update(m) : m) }
+    : t
+  );
+
+export const appendToMessage = (threads: ChatThread[], threadId: string, messageId: string, chunk: string): ChatThread[] =>
+  updateMessage(threads, threadId, messageId, m => ({ ...m, content: m.content + chunk }));
+
+export const markMessageFailed = (threads: ChatThread[], threadId: string, messageId: string): ChatThread[] =>
+  updateMessage(threads, threadId, messageId, m => ({ ...m, failed: true }));
+
+// The turns the model sees: failed or empty replies are skipped, and the
+// window always opens on a question since some APIs reject a leading reply
+export const chatContext = (messages: ChatMessage[]): ChatMessage[] => {
+  const recent = messages.filter(m => !m.failed && m.content.trim()).slice(-MAX_CHAT_CONTEXT_MESSAGES);
+  const firstQuestion = recent.findIndex(m => m.role === 'user');
+  return firstQuestion < 0 ? [] : recent.slice(firstQuestion);
+};
@@ -0,0 +1,232 @@
+import { BackupData } from "../types";
+import { CategoryDisplayMap } from "../constants";
+import { assetBaseAmount } from "./fxService";
+import { assetCostBasis } from "./assetService";
+import { assetPortfolioId, portfolioName } from "./portfolioService";
+import { TransactionTypeLabelMap } from "./transactionService";
+import { ValuationKindLabelMap } from "./priceService";
+
+type Cell = string | number | undefined;
+
+// One sheet of a spreadsheet export; the first row is the header
+export interface ExportTable {
+  key: 'holdings' | 'history' | 'transactions' | 'reports';
+  name: string;
+  rows: Cell[][];
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Flattens the stored data into the tables people want in a spreadsheet.
+// Amounts stay in their own currency, with the base-currency value alongside.
+export const buildExportTables = (data: BackupData): ExportTable[] => {
+  const { fx, portfolios } = data;
+  const assetName = (id?: string) => id ? data.assets.find(a => a.id === id)?.name || id : '整个账户';
+  const categories = Object.keys(CategoryDisplayMap);
+
+  return [
+    {
+      key: 'holdings',
+      name: '持仓',
+      rows: [
+        ['账户', '名称', '代码', '类别', '币种', '金额', `折合 ${fx.baseCurrency}`, '收益率 %', '数量', '成本', '券商', '更新时间', '估值来源'],
+        ...data.assets.map(a => [
+          portfolioName(portfolios, assetPortfolioId(a)),
+          a.name,
+          a.code,
+          CategoryDisplayMap[a.category] || a.category,
+          a.currency,
+          a.amount,
+          round(assetBaseAmount(a, fx)),
+          a.returnRate,
+          a.quantity,
+          round(assetCostBasis(a)),
+          a.broker,
+          a.lastUpdated,
+          a.valuation ? [ValuationKindLabelMap[a.valuation.kind], a.valuation.source, a.valuation.priceDate].filter(Boolean).join(' · ') : '手动'
+        ])
+      ]
+    },
+    {
+      key: 'history',
+      name: '净值历史',
+      rows: [
+        ['日期', '币种', '总净值', '收益率 %', ...categories.map(c => CategoryDisplayMap[c]), '来源'],
+        ...data.history.map(p => [
+          p.date,
+          p.currency || fx.baseCurrency,
+          round(p.totalNetWorth),
+          round(p.totalReturnRate),
+          ...categories.map(c => p.categoryValues?.[c] === undefined ? undefined : round(p.categoryValues[c])),
+          p.source === 'manual' ? '手动' : p.source === 'market' ? '行情' : '自动'
+        ])
+      ]
+    },
+    {
+      key: 'transactions',
+      name: '交易流水',
+      rows: [
+        ['日期', '类型', '账户', '资产', '金额', '币种', '数量', '来源', '备注'],
+        ...data.transactions.map(t => [
+          t.date,
+          TransactionTypeLabelMap[t.type],
+          portfolioName(portfolios, t.portfolioId),
+          assetName(t.assetId),
+          t.amount,
+          t.currency,
+          t.quantity,
+          t.source === 'inferred' ? '推断' : '手动',
+          t.note
+        ])
+      ]
+    },
+    {
+      key: 'reports',
+      name: '分析报告',
+      rows: [
+        ['时间', '账户', '风险评分', '摘要', '建议数', '待处理', '建议'],
+        ...data.analyses.map(r => [
+          r.createdAt,
+          portfolioName(portfolios, r.portfolioId),
+          r.analysis.riskScore,
+          r.analysis.summary,
+          r.analysis.suggestions.length,
+          r.analysis.suggestions.filter(s => s.status === 'open').length,
+          r.analysis.suggestions.map(s => `${s.asset || '整体组合'}：${s.rationale}`).join('\n')
+        ])
+      ]
+    }
+  ];
+};
+
+const csvField = (cell: Cell): string => {
+  if (cell === undefined) return '';
+  // Text a spreadsheet would run as a formula, such as an OCR'd name like
+  // "=HYPERLINK(...)", gets a leading apostrophe; numbers stay numbers
+  const text = typeof cell === 'string' && /^[=+\-@]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte-order mark lets Excel open the Chinese text as UTF-8
+export const tableToCsv = (table: ExportTable): Blob =>
+  new Blob(['\uFEFF' + table.rows.map(row => row.map(csvField).join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' });
+
+// --- XLSX ---
+// A workbook is a zip of a few XML parts. Parts are stored uncompressed, which
+// every spreadsheet app accepts, so no zip library is needed.
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const sheetXml = (rows: Cell[][]): string => {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (cell === undefined || cell === '') return '';
+      if (typeof cell === 'number' && isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+};
+
+const workbookParts = (tables: ExportTable[]): Record<string, string> => {
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${
+      tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    }</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+      tables.map((t, i) => `<sheet name="${escapeXml(t.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+    }</sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+      tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+    }</Relationships>`
+  };
+  tables.forEach((t, i) => { parts[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(t.rows); });
+  return parts;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// A zip archive with every entry stored (method 0)
+const zipStored = (files: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true);
+    entry.setUint16(4, 20, true); // Version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const count = Object.keys(files).length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, count, true);
+  end.setUint16(10, count, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(all.reduce((sum, c) => sum + c.length, 0));
+  let position = 0;
+  all.forEach(c => { out.set(c, position); position += c.length; });
+  return out;
+};
+
+export const tablesToXlsx = (tables: ExportTable[]): Blob =>
+  new Blob([zipStored(workbookParts(tables))], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
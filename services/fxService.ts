@@ -0,0 +1,110 @@
+import { Asset, FxSettings } from "../types";
+
+export const DEFAULT_FX_SETTINGS: FxSettings = {
+  baseCurrency: "CNY",
+  // Value of 1 unit of each currency expressed in the base currency
+  rates: {
+    CNY: 1,
+    USD: 7.1,
+    HKD: 0.91
+  }
+};
+
+// Symbols and Chinese names the model tends to return instead of ISO codes
+const CurrencyAliasMap: Record<string, string> = {
+  '¥': 'CNY',
+  '￥': 'CNY',
+  'RMB': 'CNY',
+  'CNH': 'CNY',
+  '人民币': 'CNY',
+  '元': 'CNY',
+  '$': 'USD',
+  'US$': 'USD',
+  '美元': 'USD',
+  'HK$': 'HKD',
+  '港币': 'HKD',
+  '港元': 'HKD',
+  '€': 'EUR',
+  '欧元': 'EUR',
+  '£': 'GBP',
+  '英镑': 'GBP',
+  '日元': 'JPY'
+};
+
+const CurrencySymbolMap: Record<string, string> = {
+  CNY: '¥',
+  USD: '$',
+  HKD: 'HK$',
+  EUR: '€',
+  GBP: '£',
+  JPY: 'JP¥'
+};
+
+export const normalizeCurrency = (currency?: string): string => {
+  const trimmed = (currency || '').trim();
+  if (!trimmed) return 'CNY';
+  return CurrencyAliasMap[trimmed] || CurrencyAliasMap[trimmed.toUpperCase()] || trimmed.toUpperCase();
+};
+
+export const currencySymbol = (currency: string): string =>
+  CurrencySymbolMap[currency] || `${currency} `;
+
+// Converts an amount into the base currency. Unknown currencies are passed through
+// unchanged; use findMissingRates to warn the user about them.
+export const convertToBase = (amount: number, currency: string, fx: FxSettings): number => {
+  const code = normalizeCurrency(currency);
+  if (code === fx.baseCurrency) return amount;
+  const rate = fx.rates[code];
+  return rate ? amount * rate : amount;
+};
+
+export const assetBaseAmount = (asset: Asset, fx: FxSettings): number =>
+  convertToBase(asset.amount, asset.currency, fx);
+
+export const findMissingRates = (assets: Asset[], fx: FxSettings): string[] => {
+  const missing = new Set<string>();
+  assets.forEach(a => {
+    const code = normalizeCurrency(a.currency);
+    if (code !== fx.baseCurrency && !fx.rates[code]) missing.add(code);
+  });
+  return Array.from(missing);
+};
+
+// Re-expresses the whole rate table against a new base currency so that
+// switching the base does not require re-entering every rate.
+export const rebaseFxSettings = (fx: FxSettings, newBase: string): FxSettings => {
+  const base = normalizeCurrency(newBase);
+  if (base === fx.baseCurrency) return fx;
+  const pivot = fx.rates[base];
+  if (!pivot) {
+    return { baseCurrency: base, rates: { [base]: 1 } };
+  }
+  const rates: Record<string, number> = { [fx.baseCurrency]: 1 / pivot };
+  Object.entries(fx.rates).forEach(([code, rate]) => {
+    rates[code] = rate / pivot;
+  });
+  rates[base] = 1;
+  return { baseCurrency: base, rates };
+};
+
+// Parses "currency,rate" lines (header row and comments are optional) into a rate map.
+// Rates are read as the value of 1 unit of the currency in the current base currency.
+export const parseFxRatesCsv = (csv: string): { rates: Record<string, number>; errors: string[] } => {
+  const rates: Record<string, number> = {};
+  const errors: string[] = [];
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const [rawCode, rawRate] = trimmed.split(/[,;\t]/).map(s => s.trim());
+    const rate = Number(rawRate);
+    if (index === 0 && isNaN(rate)) return; // header row
+    if (!rawCode || !isFinite(rate) || rate <= 0) {
+      errors.push(`第 ${index + 1} 行无效: ${trimmed}`);
+      return;
+    }
+    rates[normalizeCurrency(rawCode)] = rate;
+  });
+
+  return { rates, errors };
+};
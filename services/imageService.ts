@@ -0,0 +1,179 @@
+import { CropRect, ImagePart, PreprocessSettings, Screenshot, ScreenshotTile, SourceRegion } from "../types";
+
+export const NO_CROP: CropRect = { top: 0, bottom: 0, left: 0, right: 0 };
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  maxWidth: 1080,
+  tileHeight: 2400,
+  tileOverlap: 240,
+  defaultCrop: NO_CROP,
+  reviewCrop: false
+};
+
+// Browsers often report an empty type for HEIC/HEIF files
+const ExtensionMimeMap: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const inferMimeType = (file: Blob, header: string): string => {
+  const fromHeader = header.match(/^data:([^;]+);/)?.[1];
+  if (fromHeader && fromHeader.startsWith('image/')) return fromHeader;
+  if (file.type.startsWith('image/')) return file.type;
+  const extension = file instanceof File ? file.name.split('.').pop()?.toLowerCase() : undefined;
+  return (extension && ExtensionMimeMap[extension]) || 'image/jpeg';
+};
+
+// Helper to convert file to Base64, keeping its MIME type
+export const fileToGenerativePart = async (file: Blob): Promise<ImagePart> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      // Split off the data url prefix (e.g. "data:image/jpeg;base64,")
+      const [header, base64Data] = base64String.split(',');
+      resolve({ data: base64Data, mimeType: inferMimeType(file, header) });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Re-encoding format for processed tiles: small, and readable enough for text
+const OUTPUT_MIME_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.9;
+
+// Archived screenshots only need to stay legible to a person
+const ARCHIVE_MAX_WIDTH = 900;
+const ARCHIVE_QUALITY = 0.6;
+
+// HEIC files often arrive without a MIME type, so fall back to the extension
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || /\.(heic|heif)$/i.test(file.name);
+
+const isNoCrop = (crop: CropRect) =>
+  crop.top === 0 && crop.bottom === 0 && crop.left === 0 && crop.right === 0;
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('图片无法解码'));
+    };
+    image.src = url;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number = OUTPUT_QUALITY): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('图片编码失败')),
+      OUTPUT_MIME_TYPE,
+      quality
+    );
+  });
+
+// Source rectangle of the crop and the size it scales down to
+const cropGeometry = (image: HTMLImageElement, crop: CropRect, maxWidth: number) => {
+  const sx = Math.round(image.naturalWidth * crop.left);
+  const sy = Math.round(image.naturalHeight * crop.top);
+  const sw = Math.max(Math.round(image.naturalWidth * (1 - crop.left - crop.right)), 1);
+  const sh = Math.max(Math.round(image.naturalHeight * (1 - crop.top - crop.bottom)), 1);
+  const scale = Math.min(1, maxWidth / sw);
+  return { sx, sy, sw, sh, scale, width: Math.round(sw * scale), height: Math.round(sh * scale) };
+};
+
+// Vertical tile offsets covering `height`, each `tileHeight` tall and overlapping by `overlap`
+export const tileOffsets = (height: number, tileHeight: number, overlap: number): number[] => {
+  if (height <= tileHeight) return [0];
+  const step = Math.max(tileHeight - overlap, 1);
+  const offsets: number[] = [];
+  for (let y = 0; y + tileHeight < height; y += step) offsets.push(y);
+  offsets.push(height - tileHeight);
+  return offsets;
+};
+
+// Crops, downscales and splits a screenshot into model-ready tiles. Images the
+// browser can't decode (e.g. HEIC outside Safari) are sent as-is with their
+// real MIME type, since the model accepts them directly.
+export const preprocessScreenshot = async (
+  file: File,
+  settings: PreprocessSettings,
+  crop: CropRect = settings.defaultCrop
+): Promise<ScreenshotTile[]> => {
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    return [{ image: await fileToGenerativePart(file), top: 0, height: 1 }];
+  }
+
+  const { sx, sy, sw, sh, scale, width, height } = cropGeometry(image, crop, settings.maxWidth);
+
+  // Nothing to do: keep the original bytes rather than re-encoding
+  if (isNoCrop(crop) && scale === 1 && height <= settings.tileHeight) {
+    return [{ image: await fileToGenerativePart(file), top: 0, height: 1 }];
+  }
+
+  const offsets = tileOffsets(height, settings.tileHeight, settings.tileOverlap);
+  const parts: ScreenshotTile[] = [];
+  for (const offset of offsets) {
+    const tileHeight = Math.min(settings.tileHeight, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = tileHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('浏览器不支持图片处理');
+    context.drawImage(
+      image,
+      sx, sy + offset / scale, sw, tileHeight / scale,
+      0, 0, width, tileHeight
+    );
+    parts.push({ image: await fileToGenerativePart(await canvasToBlob(canvas)), top: offset / height, height: tileHeight / height });
+  }
+  return parts;
+};
+
+// A smaller copy of the cropped screenshot to keep as the source of imported
+// values. Images the browser can't decode are kept as they are.
+export const archiveScreenshot = async (file: File, crop: CropRect, portfolioId: string): Promise<Screenshot> => {
+  const screenshot = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    portfolioId,
+    fileName: file.name || '粘贴的图片',
+    rawOutput: [] as string[]
+  };
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    return { ...screenshot, blob: file };
+  }
+
+  const { sx, sy, sw, sh, width, height } = cropGeometry(image, crop, ARCHIVE_MAX_WIDTH);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return { ...screenshot, blob: file };
+  context.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+  return { ...screenshot, blob: await canvasToBlob(canvas, ARCHIVE_QUALITY) };
+};
+
+// Moves a region reported for one tile into the coordinates of the whole screenshot
+export const tileRegionToScreenshot = (region: SourceRegion, tile: ScreenshotTile): SourceRegion => ({
+  left: region.left,
+  right: region.right,
+  top: tile.top + region.top * tile.height,
+  bottom: tile.top + region.bottom * tile.height
+});
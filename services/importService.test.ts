@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetCategory, ExtractedHolding } from '../types';
+import { rememberAlias } from './assetMatcher';
+import { applyImportRows, buildImportRows, dedupeExtractedRows, mapImportRow, releaseMissingTargets } from './importService';
+
+const asset = (id: string, name: string, fields: Partial<Asset> = {}): Asset => ({
+  id, name, category: AssetCategory.STOCK, amount: 100, returnRate: 0, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z', ...fields
+});
+
+const row = (name: string, fields: ExtractedHolding = {}): ExtractedHolding => ({ name, category: AssetCategory.STOCK, amount: 200, currency: 'CNY', ...fields });
+
+describe('dedupeExtractedRows', () => {
+  it('keeps one row per holding across overlapping screenshots, latest reading first', () => {
+    const rows = dedupeExtractedRows([
+      [row('贵州茅台', { code: '600519', amount: 1 }), row('招商银行')],
+      [row('贵州茅台（600519）', { amount: 2 }), row('余额宝')]
+    ]);
+    expect(rows.map(r => [r.name, r.amount])).toEqual([['招商银行', 200], ['贵州茅台（600519）', 2], ['余额宝', 200]]);
+  });
+});
+
+describe('buildImportRows', () => {
+  const assets = [asset('mt', '贵州茅台', { code: '600519' }), asset('zs', '招商银行')];
+
+  it('matches by code, then exact name, and leaves the rest new', () => {
+    const rows = buildImportRows([row('茅台', { code: '600519' }), row('招商银行'), row('余额宝')], assets, []);
+    expect(rows.map(r => [r.status, r.targetAssetId, r.matchMethod])).toEqual([
+      ['update', 'mt', 'code'],
+      ['update', 'zs', 'exact'],
+      ['new', undefined, undefined]
+    ]);
+  });
+
+  it('lets an asset be claimed by only one row', () => {
+    const rows = buildImportRows([row('招商银行'), row('招商银行')], assets, []);
+    expect(rows.map(r => r.status)).toEqual(['update', 'new']);
+  });
+
+  it('resolves a learned alias', () => {
+    const rows = buildImportRows([row('招行')], assets, rememberAlias([], '招行', 'zs'));
+    expect(rows[0]).toMatchObject({ status: 'update', targetAssetId: 'zs', matchMethod: 'alias' });
+  });
+
+  it('never matches across conflicting codes', () => {
+    const rows = buildImportRows([row('贵州茅台', { code: '000001' })], assets, []);
+    expect(rows[0].targetAssetId).toBeUndefined();
+  });
+});
+
+describe('applyImportRows', () => {
+  it('updates matched assets, keeping their name and what the screenshot left out', () => {
+    const assets = [asset('zs', '招商银行', { quantity: 10, broker: '招商证券' })];
+    const [updated] = applyImportRows(buildImportRows([row('招商银行', { amount: 300 })], assets, []), assets, 'default');
+    expect(updated).toMatchObject({ id: 'zs', name: '招商银行', amount: 300, quantity: 10, broker: '招商证券', valuation: { kind: 'screenshot' } });
+  });
+
+  it('adds new rows to the import portfolio and skips unmatched ones', () => {
+    const assets = [asset('zs', '招商银行A类')];
+    const rows = buildImportRows([row('招商银行A'), row('余额宝')], assets, []);
+    expect(rows[0].status).toBe('unmatched');
+    const next = applyImportRows(rows, assets, 'p2');
+    expect(next.map(a => a.name)).toEqual(['招商银行A类', '余额宝']);
+    expect(next[1].portfolioId).toBe('p2');
+  });
+
+  it('does not turn a row whose target is gone into a new asset', () => {
+    const assets = [asset('zs', '招商银行')];
+    const rows = buildImportRows([row('招商银行')], assets, []);
+    expect(applyImportRows(rows, [], 'default')).toEqual([]);
+  });
+});
+
+describe('releaseMissingTargets', () => {
+  it('sends rows whose target was deleted back to review', () => {
+    const assets = [asset('zs', '招商银行'), asset('mt', '贵州茅台')];
+    const rows = [...buildImportRows([row('招商银行'), row('余额宝')], assets, []), mapImportRow(buildImportRows([row('茅台')], [], [])[0], 'mt')];
+    const { rows: checked, released } = releaseMissingTargets(rows, [assets[1]]);
+    expect(released).toBe(1);
+    expect(checked[0]).toMatchObject({ status: 'unmatched', targetAssetId: undefined, accepted: false });
+    expect(checked[0].warnings).toHaveLength(1);
+    expect(checked[1]).toBe(rows[1]);
+    expect(checked[2]).toBe(rows[2]);
+  });
+});
@@ -0,0 +1,141 @@
+import { Asset, AssetAlias, AssetCategory, AssetDraft, ExtractedHolding, ImportRow, ImportRowStatus } from "../types";
+import { normalizeCurrency } from "./fxService";
+import { validateDraft } from "./assetService";
+import { AUTO_MATCH_CONFIDENCE, assetIdentityKey, normalizeCode, rankAssetMatches, rememberAlias } from "./assetMatcher";
+
+export const toDraft = (extracted: Partial<Asset>): AssetDraft => ({
+  name: extracted.name || '',
+  category: extracted.category || AssetCategory.OTHER,
+  amount: extracted.amount || 0,
+  returnRate: extracted.returnRate || 0,
+  currency: normalizeCurrency(extracted.currency),
+  code: normalizeCode(extracted.code),
+  exchange: extracted.exchange || undefined,
+  broker: extracted.broker || undefined,
+  account: extracted.account || undefined,
+  quantity: extracted.quantity,
+  costBasis: extracted.costBasis,
+  price: extracted.price,
+  dailyChange: extracted.dailyChange,
+  source: extracted.source
+});
+
+// Combines rows from several screenshots of the same holdings list. Rows that
+// appear in overlapping screenshots are kept once, with the later reading winning.
+export const dedupeExtractedRows = (batches: ExtractedHolding[][]): ExtractedHolding[] => {
+  const byKey = new Map<string, ExtractedHolding>();
+  batches.flat().forEach(item => {
+    if (!item.name) return;
+    const key = assetIdentityKey({ name: item.name, code: item.code });
+    // Delete first so the row keeps the position of its latest sighting
+    byKey.delete(key);
+    byKey.set(key, item);
+  });
+  return Array.from(byKey.values());
+};
+
+export const buildImportRows = (extracted: ExtractedHolding[], assets: Asset[], aliases: AssetAlias[]): ImportRow[] => {
+  // An asset can be claimed automatically by only one row per import
+  const claimed = new Set<string>();
+
+  return extracted.map((item, index) => {
+    const draft = toDraft(item);
+    const matches = rankAssetMatches(draft, assets, aliases).filter(m => !claimed.has(m.assetId));
+    const best = matches[0];
+    const auto = best && best.confidence >= AUTO_MATCH_CONFIDENCE;
+    if (auto) claimed.add(best.assetId);
+
+    const status: ImportRowStatus = auto ? 'update' : best ? 'unmatched' : 'new';
+    return {
+      key: `${index}-${draft.name}`,
+      draft,
+      status,
+      targetAssetId: auto ? best.assetId : undefined,
+      suggestedAssetIds: auto ? [] : matches.map(m => m.assetId),
+      matchMethod: best?.method,
+      confidence: best?.confidence,
+      warnings: item.warnings,
+      accepted: status !== 'unmatched'
+    };
+  });
+};
+
+// Points a row at an existing asset, or at a new asset when targetAssetId is undefined
+export const mapImportRow = (row: ImportRow, targetAssetId?: string): ImportRow => ({
+  ...row,
+  targetAssetId,
+  status: targetAssetId ? 'update' : 'new',
+  manuallyMapped: true,
+  accepted: true
+});
+
+// Rows still pointing at an asset that was deleted, or renamed away by an
+// undo, while the review was open. They go back to review instead of quietly
+// becoming a duplicate holding.
+export const releaseMissingTargets = (rows: ImportRow[], assets: Asset[]): { rows: ImportRow[]; released: number } => {
+  const exists = new Set(assets.map(a => a.id));
+  let released = 0;
+  const next = rows.map(row => {
+    if (!row.accepted || !row.targetAssetId || exists.has(row.targetAssetId)) return row;
+    released++;
+    return {
+      ...row,
+      status: 'unmatched' as const,
+      targetAssetId: undefined,
+      suggestedAssetIds: row.suggestedAssetIds.filter(id => exists.has(id)),
+      matchMethod: undefined,
+      confidence: undefined,
+      manuallyMapped: false,
+      accepted: false,
+      warnings: [...(row.warnings || []), { message: '匹配的持仓已不存在，请重新选择或标记为新资产' }]
+    };
+  });
+  return { rows: next, released };
+};
+
+// Merges accepted rows into the asset list; new assets join `portfolioId`.
+// Unmatched rows are never committed: the reviewer has to map them to an
+// asset or mark them as new first. Neither is a row whose target asset is
+// gone; see releaseMissingTargets.
+export const applyImportRows = (rows: ImportRow[], assets: Asset[], portfolioId: string): Asset[] => {
+  const now = new Date().toISOString();
+  const next = [...assets];
+
+  rows.forEach(row => {
+    if (!row.accepted || row.status === 'unmatched' || validateDraft(row.draft)) return;
+    const index = row.targetAssetId ? next.findIndex(a => a.id === row.targetAssetId) : -1;
+    if (row.targetAssetId && index < 0) return;
+    if (index >= 0) {
+      // Keep the existing name so a truncated or decorated screenshot name doesn't rename the holding
+      // Identity fields the screenshot didn't show are kept from the existing asset
+      // So are the position size and cost, which fund apps often leave out
+      const { code, exchange, broker, account, quantity, costBasis, ...values } = row.draft;
+      next[index] = {
+        ...next[index],
+        ...values,
+        name: next[index].name,
+        code: code || next[index].code,
+        exchange: exchange || next[index].exchange,
+        broker: broker || next[index].broker,
+        account: account || next[index].account,
+        quantity: quantity ?? next[index].quantity,
+        costBasis: costBasis ?? next[index].costBasis,
+        lastUpdated: now,
+        valuation: { kind: 'screenshot' }
+      };
+    } else {
+      next.push({ ...row.draft, id: crypto.randomUUID(), portfolioId, lastUpdated: now, valuation: { kind: 'screenshot' } });
+    }
+  });
+
+  return next;
+};
+
+// Records the names of rows the user mapped by hand, so the same screenshot
+// name resolves to the same asset on later imports
+export const learnAliases = (rows: ImportRow[], aliases: AssetAlias[]): AssetAlias[] =>
+  rows.reduce((acc, row) => {
+    if (!row.accepted || !row.targetAssetId) return acc;
+    if (!row.manuallyMapped && row.matchMethod !== 'fuzzy') return acc;
+    return rememberAlias(acc, row.draft.name, row.targetAssetId);
+  }, aliases);
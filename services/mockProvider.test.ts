@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetCategory } from '../types';
+import { DEFAULT_FX_SETTINGS } from './fxService';
+import { MOCK_HOLDINGS_FIXTURES, createMockProvider } from './mockProvider';
+import { validateAnalysis, validateExtractedHoldings } from './validationService';
+
+const image = (data: string) => ({ data, mimeType: 'image/png' });
+
+const asset = (id: string, category: AssetCategory, amount: number, returnRate = 0): Asset => ({
+  id, name: `资产 ${id}`, category, amount, returnRate, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z'
+});
+
+describe('createMockProvider', () => {
+  const provider = createMockProvider();
+
+  it('reads the same image the same way every time', async () => {
+    const first = await provider.extractHoldings(image('abc'));
+    expect(await provider.extractHoldings(image('abc'))).toBe(first);
+  });
+
+  it('spreads different images over the fixtures', async () => {
+    const readings = await Promise.all(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(d => provider.extractHoldings(image(d))));
+    expect(new Set(readings).size).toBe(MOCK_HOLDINGS_FIXTURES.length);
+  });
+
+  it('returns holdings that pass validation, raw text values included', async () => {
+    for (let i = 0; i < 8; i++) {
+      const { value, errors } = validateExtractedHoldings(await provider.extractHoldings(image(String(i))));
+      expect(errors).toEqual([]);
+      expect(value.length).toBeGreaterThan(0);
+      value.forEach(h => expect(Number.isFinite(h.amount)).toBe(true));
+    }
+  });
+
+  it('parses "9.5万" and percentage strings like real model output', () => {
+    const tencent = validateExtractedHoldings(JSON.stringify(MOCK_HOLDINGS_FIXTURES[1])).value.find(h => h.code === '00700');
+    expect(tencent?.amount).toBe(95000);
+    expect(tencent?.returnRate).toBe(6.1);
+  });
+
+  it('analyzes the given holdings into a valid structured report', async () => {
+    const assets = [asset('a', AssetCategory.STOCK, 800, -12), asset('b', AssetCategory.CASH, 200)];
+    const { value, errors } = validateAnalysis(await provider.analyzePortfolio(assets, DEFAULT_FX_SETTINGS), assets);
+    expect(errors).toEqual([]);
+    expect(value?.riskScore).toBeGreaterThanOrEqual(1);
+    expect(value?.riskScore).toBeLessThanOrEqual(10);
+    expect(value?.concentrationWarnings.map(w => w.holdings)).toEqual([['资产 a']]);
+  });
+
+  it('streams a chat reply in chunks', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of provider.chat('', [{ id: 'm1', role: 'user', content: '怎么调仓？', createdAt: '' }])) chunks.push(chunk);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toContain('怎么调仓？');
+  });
+});
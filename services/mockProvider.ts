@@ -0,0 +1,96 @@
+import { AiProvider, Asset, ChatMessage, AssetCategory, FxSettings, ImagePart } from "../types";
+import { CategoryDisplayMap } from "../constants";
+import { assetBaseAmount } from "./fxService";
+
+// Canned screenshot readings. The same image always yields the same fixture,
+// so development and tests run offline and reproducibly. Values mix numbers and
+// raw screenshot text ("9.5万", "-3.20%") the way real model output does.
+export const MOCK_HOLDINGS_FIXTURES: Record<string, unknown>[][] = [
+  [
+    { name: '贵州茅台', code: '600519', exchange: 'SH', category: 'Stock', amount: 168000, returnRate: 12.4, currency: 'CNY', broker: '招商证券', quantity: 100, price: 1680, costPrice: '1,494.66', dailyChange: '+1,250.00', box: [120, 30, 280, 970] },
+    { name: '招商银行', code: '600036', exchange: 'SH', category: 'Stock', amount: '52,300.00', returnRate: '-3.20%', currency: 'CNY', broker: '招商证券', quantity: '1,500', price: 34.87, dailyChange: '-210.00', box: [300, 30, 460, 970] },
+    { name: '易方达蓝筹精选混合', code: '005827', category: 'Fund', amount: 80450.5, returnRate: -8.75, currency: 'CNY', broker: '招商证券', box: [480, 30, 640, 970] }
+  ],
+  [
+    { name: '腾讯控股', code: '00700', exchange: 'HK', category: 'Stock', amount: '9.5万', returnRate: '+6.10%', currency: 'HKD', broker: '富途证券', box: [120, 30, 280, 970] },
+    { name: 'Apple Inc.', code: 'AAPL', exchange: 'NASDAQ', category: 'Stock', amount: 12800, returnRate: 21.3, currency: 'USD', broker: '富途证券', box: [300, 30, 460, 970] },
+    { name: '美元现金', category: 'Cash', amount: 5000, returnRate: 0, currency: 'USD', broker: '富途证券', box: [480, 30, 640, 970] }
+  ],
+  [
+    { name: '余额宝', category: 'Cash', amount: 30000, returnRate: 1.6, currency: 'CNY', broker: '支付宝', box: [120, 30, 280, 970] },
+    { name: '招商中证白酒指数(LOF)A', code: '161725', category: 'Fund', amount: 24600, returnRate: -15.2, currency: 'CNY', broker: '支付宝', profit: '-4,409.43', dailyChange: '-86.10', box: [300, 30, 460, 970] },
+    { name: '国债逆回购', category: 'Bond', amount: '10万', returnRate: '+2.1%', currency: 'CNY', broker: '支付宝', box: [480, 30, 640, 970] }
+  ]
+];
+
+// FNV-1a over the base64 payload: stable across runs and cheap for large images
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Shaped like a model response (before validation), derived from the holdings
+// so the numbers in it line up with the rest of the app
+const buildMockAnalysis = (assets: Asset[], fx: FxSettings): Record<string, unknown> => {
+  const total = assets.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+  const weightOf = (items: Asset[]) => total > 0 ? items.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0) / total * 100 : 0;
+  const weights = Object.values(AssetCategory)
+    .map(category => ({ category, count: assets.filter(a => a.category === category).length, weight: weightOf(assets.filter(a => a.category === category)) }))
+    .filter(w => w.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+  const top = weights[0];
+  const split = weights.map(w => `${CategoryDisplayMap[w.category]} ${w.weight.toFixed(1)}%`).join('，');
+  const equityWeight = weights.reduce((sum, w) =>
+    sum + (w.category === AssetCategory.STOCK || w.category === AssetCategory.CRYPTO ? w.weight : w.category === AssetCategory.FUND ? w.weight / 2 : 0), 0);
+  const largest = [...assets].sort((a, b) => assetBaseAmount(b, fx) - assetBaseAmount(a, fx))[0];
+  const worst = [...assets].sort((a, b) => a.returnRate - b.returnRate)[0];
+
+  const suggestions: Record<string, string>[] = [];
+  if (top && top.weight > 50) {
+    suggestions.push({ asset: CategoryDisplayMap[top.category], action: 'rebalance', rationale: `【模拟分析】${CategoryDisplayMap[top.category]}占比 ${top.weight.toFixed(1)}%，集中度偏高，建议逐步分散。`, priority: 'high' });
+  }
+  if (worst && worst.returnRate < -10) {
+    suggestions.push({ asset: worst.name, action: 'review', rationale: `【模拟分析】${worst.name} 浮亏 ${worst.returnRate}%，建议复核持有逻辑。`, priority: 'medium' });
+  }
+  suggestions.push({ asset: '', action: 'hold', rationale: '【模拟分析】此结果由本地模拟后端生成，仅用于开发与测试。', priority: 'low' });
+
+  return {
+    riskScore: Math.min(10, Math.max(1, Math.round(1 + equityWeight * 9 / 100))),
+    summary: `【模拟分析】当前组合共 ${assets.length} 项持仓，总资产折合 ${total.toFixed(2)} ${fx.baseCurrency}。配置为：${split}。`,
+    concentrationWarnings: largest && weightOf([largest]) > 30
+      ? [{ holdings: [largest.name], message: `【模拟分析】${largest.name} 占组合 ${weightOf([largest]).toFixed(1)}%，单一持仓风险较高。` }]
+      : [],
+    suggestions,
+    diversification: weights.map(w => ({
+      category: w.category,
+      rating: w.count >= 3 ? 'good' : w.count === 2 ? 'fair' : 'poor',
+      comment: `【模拟分析】共 ${w.count} 项持仓，占比 ${w.weight.toFixed(1)}%。`
+    }))
+  };
+};
+
+// Canned reply streamed a few characters at a time, like a real model
+const MOCK_CHUNK_SIZE = 4;
+const MOCK_CHUNK_DELAY_MS = 30;
+
+async function* streamMockReply(messages: ChatMessage[]): AsyncGenerator<string> {
+  const question = messages[messages.length - 1]?.content || '';
+  const reply = `【模拟回复】关于“${question.slice(0, 40)}”：此回复由本地模拟后端生成，仅用于开发与测试。真实回答会结合你的持仓、最近一次分析报告和净值走势。`;
+  for (let i = 0; i < reply.length; i += MOCK_CHUNK_SIZE) {
+    await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+    yield reply.slice(i, i + MOCK_CHUNK_SIZE);
+  }
+}
+
+export const createMockProvider = (): AiProvider => ({
+  kind: 'mock',
+  model: 'fixtures',
+  extractHoldings: async (image: ImagePart) =>
+    JSON.stringify(MOCK_HOLDINGS_FIXTURES[hashString(image.data) % MOCK_HOLDINGS_FIXTURES.length]),
+  analyzePortfolio: async (assets, fx) => JSON.stringify(buildMockAnalysis(assets, fx)),
+  chat: (_systemPrompt, messages) => streamMockReply(messages)
+});
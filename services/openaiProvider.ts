@@ -0,0 +1,80 @@
+import { AiProvider, Asset, ChatMessage, FxSettings, ImagePart, RiskMetrics } from "../types";
+import { HOLDINGS_EXTRACTION_PROMPT, buildAnalysisPrompt } from "./promptService";
+
+// JSON mode only allows an object at the top level
+const EXTRACTION_WRAPPER_PROMPT = `\n请以 {"holdings": [...]} 的 JSON 对象形式返回，列表中每项包含 name, category, amount, returnRate, currency, code, exchange, broker, account, quantity, price, costPrice, costBasis, profit, dailyChange, box 字段。`;
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+const postChatCompletions = (baseUrl: string, apiKey: string, body: Record<string, unknown>): Promise<Response> =>
+  fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+
+const chatCompletion = async (baseUrl: string, apiKey: string, model: string, content: ChatContent): Promise<string> => {
+  const response = await postChatCompletions(baseUrl, apiKey, {
+    model,
+    messages: [{ role: 'user', content }],
+    response_format: { type: 'json_object' },
+    temperature: 0
+  });
+  if (!response.ok) {
+    throw new Error(`Model server responded ${response.status}: ${await response.text()}`);
+  }
+  const body = await response.json();
+  const text: string | undefined = body.choices?.[0]?.message?.content;
+  if (!text) throw new Error("Empty response from model server");
+  return text;
+};
+
+// Reads the server-sent event stream of a streaming chat completion
+async function* streamChatCompletion(baseUrl: string, apiKey: string, model: string, systemPrompt: string, messages: ChatMessage[]): AsyncGenerator<string> {
+  const response = await postChatCompletions(baseUrl, apiKey, {
+    model,
+    messages: [{ role: 'system', content: systemPrompt }, ...messages.map(m => ({ role: m.role, content: m.content }))],
+    stream: true,
+    temperature: 0.3
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Model server responded ${response.status}: ${await response.text()}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') continue;
+      const delta: string | undefined = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+}
+
+// Talks to any server implementing the OpenAI chat completions API
+// (a local llama.cpp/Ollama/vLLM instance, or a hosted service)
+export const createOpenAiProvider = (baseUrl: string, apiKey: string, model: string): AiProvider => ({
+  kind: 'openai',
+  model,
+  extractHoldings: (image: ImagePart, feedback = '') =>
+    chatCompletion(baseUrl, apiKey, model, [
+      { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+      { type: 'text', text: HOLDINGS_EXTRACTION_PROMPT + EXTRACTION_WRAPPER_PROMPT + feedback }
+    ]),
+  analyzePortfolio: (assets: Asset[], fx: FxSettings, risk?: RiskMetrics, feedback = '') =>
+    chatCompletion(baseUrl, apiKey, model, buildAnalysisPrompt(assets, fx, risk) + feedback),
+  chat: (systemPrompt: string, messages: ChatMessage[]) =>
+    streamChatCompletion(baseUrl, apiKey, model, systemPrompt, messages)
+});
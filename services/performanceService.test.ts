@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from '../types';
+import { DEFAULT_FX_SETTINGS } from './fxService';
+import { computePerformance, computeXirr, periodStartDate } from './performanceService';
+
+const deposit = (date: string, amount: number): Transaction => ({
+  id: date, date, type: 'deposit', amount, currency: 'CNY', portfolioId: 'default', source: 'manual'
+});
+
+describe('computeXirr', () => {
+  it('annualizes a single year of growth', () => {
+    const xirr = computeXirr([{ date: '2023-01-01', amount: -100 }, { date: '2024-01-01', amount: 110 }]);
+    expect(xirr).toBeCloseTo(10, 4);
+  });
+
+  it('compounds over several years', () => {
+    const xirr = computeXirr([{ date: '2021-01-01', amount: -100 }, { date: '2023-01-01', amount: 121 }]);
+    expect(xirr).toBeCloseTo(10, 4);
+  });
+
+  it('weights money by how long it was invested', () => {
+    const xirr = computeXirr([
+      { date: '2023-01-01', amount: -100 },
+      { date: '2023-07-02', amount: -100 },
+      { date: '2024-01-01', amount: 215 }
+    ]);
+    // 15 gained on 150 of average capital is about 10%; more than 7.5% on the total paid in
+    expect(xirr).toBeGreaterThan(9);
+    expect(xirr).toBeLessThan(11);
+  });
+
+  it('handles losses', () => {
+    expect(computeXirr([{ date: '2023-01-01', amount: -100 }, { date: '2024-01-01', amount: 80 }])).toBeCloseTo(-20, 4);
+  });
+
+  it('is null without a sign change or without elapsed time', () => {
+    expect(computeXirr([{ date: '2023-01-01', amount: -100 }, { date: '2024-01-01', amount: -10 }])).toBeNull();
+    expect(computeXirr([{ date: '2023-01-01', amount: -100 }, { date: '2023-01-01', amount: 110 }])).toBeNull();
+  });
+});
+
+describe('computePerformance', () => {
+  it('strips deposits out of the time-weighted return', () => {
+    const points = [
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-02-01', value: 210 }, // 10% growth plus a deposit of 100
+      { date: '2024-03-01', value: 231 }
+    ];
+    const summary = computePerformance(points, [deposit('2024-02-01', 100)], DEFAULT_FX_SETTINGS);
+    expect(summary.netFlow).toBe(100);
+    expect(summary.twr).toBeCloseTo(21, 6);
+    expect(summary.series.map(p => p.twr)).toEqual([0, expect.closeTo(10, 6), expect.closeTo(21, 6)]);
+  });
+
+  it('ignores points before the period start', () => {
+    const points = [{ date: '2024-01-01', value: 50 }, { date: '2024-02-01', value: 100 }, { date: '2024-03-01', value: 120 }];
+    const summary = computePerformance(points, [], DEFAULT_FX_SETTINGS, '2024-02-01');
+    expect(summary.twr).toBeCloseTo(20, 6);
+  });
+
+  it('has no returns for a single point', () => {
+    const summary = computePerformance([{ date: '2024-01-01', value: 100 }], [], DEFAULT_FX_SETTINGS);
+    expect(summary.twr).toBeNull();
+    expect(summary.xirr).toBeNull();
+  });
+});
+
+describe('periodStartDate', () => {
+  it('clamps to the end of shorter months', () => {
+    expect(periodStartDate('1M', '2025-03-31')).toBe('2025-02-28');
+    expect(periodStartDate('1M', '2024-03-31')).toBe('2024-02-29');
+    expect(periodStartDate('3M', '2025-05-31')).toBe('2025-02-28');
+    expect(periodStartDate('1Y', '2024-02-29')).toBe('2023-02-28');
+  });
+
+  it('crosses year boundaries', () => {
+    expect(periodStartDate('1M', '2025-01-15')).toBe('2024-12-15');
+    expect(periodStartDate('6M', '2025-03-10')).toBe('2024-09-10');
+  });
+
+  it('starts YTD on January 1st and ALL nowhere', () => {
+    expect(periodStartDate('YTD', '2025-08-20')).toBe('2025-01-01');
+    expect(periodStartDate('ALL', '2025-08-20')).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { FxSettings, HistoryPoint, PerformancePoint, PerformanceSummary, ReturnPeriod, Transaction } from "../types";
+import { addMonths, selectPortfolioHistory, toDateKey } from "./snapshotService";
+import { transactionFlow } from "./transactionService";
+
+export const RETURN_PERIODS: ReturnPeriod[] = ['1M', '3M', '6M', 'YTD', '1Y', 'ALL'];
+
+export const ReturnPeriodLabelMap: Record<ReturnPeriod, string> = {
+  '1M': '近1月',
+  '3M': '近3月',
+  '6M': '近6月',
+  'YTD': '今年以来',
+  '1Y': '近1年',
+  'ALL': '全部'
+};
+
+const PERIOD_MONTHS: Partial<Record<ReturnPeriod, number>> = { '1M': 1, '3M': 3, '6M': 6, '1Y': 12 };
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+// First day included in `period`, or undefined for the whole history
+export const periodStartDate = (period: ReturnPeriod, today: string = toDateKey()): string | undefined => {
+  if (period === 'ALL') return undefined;
+  if (period === 'YTD') return `${today.slice(0, 4)}-01-01`;
+  return addMonths(today, -(PERIOD_MONTHS[period] || 0));
+};
+
+// Net worth over time for a portfolio, or for a single asset when assetId is given
+export const selectValueSeries = (history: HistoryPoint[], portfolioId: string, assetId?: string): ValuePoint[] => {
+  if (assetId) {
+    return history.flatMap(point => {
+      const value = point.assetValues?.[assetId];
+      return value === undefined ? [] : [{ date: point.date, value }];
+    });
+  }
+  return selectPortfolioHistory(history, portfolioId).map(point => ({ date: point.date, value: point.totalNetWorth }));
+};
+
+// Annualized internal rate of return of dated cash flows (negative = paid in),
+// found by bisection since the NPV of an investment falls as the rate rises.
+// Null when there is no sign change or no time has passed.
+export const computeXirr = (flows: CashFlow[]): number | null => {
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+  const start = Math.min(...flows.map(f => Date.parse(f.date)));
+  const years = flows.map(f => (Date.parse(f.date) - start) / YEAR_MS);
+  if (Math.max(...years) <= 0) return null;
+
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  let low = -0.9999;
+  let high = 1000;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+  for (let i = 0; i < 200 && high - low > 1e-9; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid;
+    else high = mid;
+  }
+  return ((low + high) / 2) * 100;
+};
+
+// Time-weighted and money-weighted returns of a value series from `start`.
+// Cash flows are assumed to land at the end of the day they were recorded, so
+// each snapshot-to-snapshot step strips out the money that arrived during it.
+export const computePerformance = (
+  points: ValuePoint[],
+  transactions: Transaction[],
+  fx: FxSettings,
+  start?: string
+): PerformanceSummary => {
+  const inPeriod = start ? points.filter(p => p.date >= start) : points;
+  if (inPeriod.length === 0) return { series: [], twr: null, xirr: null, netFlow: 0 };
+
+  const first = inPeriod[0];
+  const last = inPeriod[inPeriod.length - 1];
+  const flowsIn = (after: string, upTo: string) =>
+    transactions.filter(t => t.date > after && t.date <= upTo);
+
+  let growth = 1;
+  let netFlow = 0;
+  const series: PerformancePoint[] = [{ date: first.date, netWorth: first.value, twr: 0 }];
+  for (let i = 1; i < inPeriod.length; i++) {
+    const prev = inPeriod[i - 1];
+    const point = inPeriod[i];
+    const flow = flowsIn(prev.date, point.date).reduce((sum, t) => sum + transactionFlow(t, fx), 0);
+    netFlow += flow;
+    // A step that starts from nothing has no return of its own
+    if (prev.value > 0) growth *= (point.value - flow) / prev.value;
+    series.push({ date: point.date, netWorth: point.value, twr: (growth - 1) * 100 });
+  }
+
+  const cashFlows: CashFlow[] = [
+    { date: first.date, amount: -first.value },
+    ...flowsIn(first.date, last.date).map(t => ({ date: t.date, amount: -transactionFlow(t, fx) })),
+    { date: last.date, amount: last.value }
+  ];
+
+  return {
+    series,
+    twr: inPeriod.length > 1 ? (growth - 1) * 100 : null,
+    xirr: inPeriod.length > 1 ? computeXirr(cashFlows) : null,
+    netFlow
+  };
+};
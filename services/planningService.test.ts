@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, AssetCategory } from '../types';
+import { DEFAULT_FX_SETTINGS } from './fxService';
+import { DEFAULT_PLANNING_SETTINGS, monthsUntil, projectGoal } from './planningService';
+
+const asset = (category: AssetCategory, amount: number): Asset => ({
+  id: category, name: category, category, amount, returnRate: 0, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z'
+});
+
+const assets = [asset(AssetCategory.STOCK, 60000), asset(AssetCategory.BOND, 40000)];
+const goal = { targetAmount: 150000, targetDate: '2030-01-15', monthlyContribution: 500 };
+const today = '2025-01-15';
+
+describe('projectGoal', () => {
+  it('gives the same projection for the same seed', () => {
+    const first = projectGoal(assets, DEFAULT_FX_SETTINGS, goal, DEFAULT_PLANNING_SETTINGS, today);
+    const second = projectGoal(assets, DEFAULT_FX_SETTINGS, goal, DEFAULT_PLANNING_SETTINGS, today);
+    expect(second).toEqual(first);
+  });
+
+  it('varies with the seed', () => {
+    const first = projectGoal(assets, DEFAULT_FX_SETTINGS, goal, DEFAULT_PLANNING_SETTINGS, today);
+    const other = projectGoal(assets, DEFAULT_FX_SETTINGS, goal, { ...DEFAULT_PLANNING_SETTINGS, seed: 7 }, today);
+    expect(other.points[other.points.length - 1].p50).not.toBe(first.points[first.points.length - 1].p50);
+  });
+
+  it('has one point per month, starting from today\'s value, with ordered percentiles', () => {
+    const { points } = projectGoal(assets, DEFAULT_FX_SETTINGS, goal, DEFAULT_PLANNING_SETTINGS, today);
+    expect(points).toHaveLength(monthsUntil(goal.targetDate, today) + 1);
+    expect(points[0]).toMatchObject({ date: today, p10: 100000, p90: 100000 });
+    points.forEach(p => {
+      expect(p.p10).toBeLessThanOrEqual(p.p25);
+      expect(p.p25).toBeLessThanOrEqual(p.p50);
+      expect(p.p50).toBeLessThanOrEqual(p.p75);
+      expect(p.p75).toBeLessThanOrEqual(p.p90);
+    });
+  });
+
+  it('keeps month-end dates at the end of shorter months', () => {
+    const { points } = projectGoal(assets, DEFAULT_FX_SETTINGS, { ...goal, targetDate: '2025-06-30' }, { ...DEFAULT_PLANNING_SETTINGS, simulations: 10 }, '2025-01-31');
+    expect(points.map(p => p.date)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30']);
+    expect(monthsUntil('2025-06-29', '2025-01-31')).toBe(4);
+  });
+
+  it('follows the expected return exactly when nothing is volatile', () => {
+    const settings = {
+      ...DEFAULT_PLANNING_SETTINGS,
+      simulations: 10,
+      assumptions: { ...DEFAULT_PLANNING_SETTINGS.assumptions, [AssetCategory.CASH]: { expectedReturn: 12, volatility: 0 } }
+    };
+    const cash = [asset(AssetCategory.CASH, 1000)];
+    const { points, probability } = projectGoal(cash, DEFAULT_FX_SETTINGS, { targetAmount: 1120, targetDate: '2026-01-15', monthlyContribution: 0 }, settings, today);
+    expect(points[12].p10).toBeCloseTo(1120, 6);
+    expect(points[12].p90).toBeCloseTo(1120, 6);
+    // Floating point puts the final value a hair either side of the target
+    expect([0, 100]).toContain(probability);
+  });
+
+  it('grows the probability with larger contributions', () => {
+    const low = projectGoal(assets, DEFAULT_FX_SETTINGS, { ...goal, monthlyContribution: 0 }, DEFAULT_PLANNING_SETTINGS, today);
+    const high = projectGoal(assets, DEFAULT_FX_SETTINGS, { ...goal, monthlyContribution: 2000 }, DEFAULT_PLANNING_SETTINGS, today);
+    expect(high.probability).toBeGreaterThan(low.probability);
+  });
+});
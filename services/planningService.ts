@@ -0,0 +1,124 @@
+import { Asset, AssetCategory, FxSettings, Goal, GoalProjection, PlanningSettings, ProjectionPoint } from "../types";
+import { assetBaseAmount } from "./fxService";
+import { addMonths, toDateKey } from "./snapshotService";
+
+export const DEFAULT_PLANNING_SETTINGS: PlanningSettings = {
+  assumptions: {
+    [AssetCategory.STOCK]: { expectedReturn: 7, volatility: 18 },
+    [AssetCategory.FUND]: { expectedReturn: 5, volatility: 12 },
+    [AssetCategory.BOND]: { expectedReturn: 3, volatility: 4 },
+    [AssetCategory.CRYPTO]: { expectedReturn: 10, volatility: 60 },
+    [AssetCategory.CASH]: { expectedReturn: 1.5, volatility: 0.5 },
+    [AssetCategory.OTHER]: { expectedReturn: 4, volatility: 10 }
+  },
+  simulations: 1000,
+  seed: 42
+};
+
+export const SIMULATION_OPTIONS = [500, 1000, 5000];
+
+// Projections longer than this are cut off
+const MAX_MONTHS = 12 * 50;
+
+export const createGoal = (portfolioId: string, name: string, targetAmount: number, targetDate: string, monthlyContribution: number): Goal => ({
+  id: crypto.randomUUID(),
+  portfolioId,
+  name: name.trim(),
+  targetAmount,
+  targetDate,
+  monthlyContribution,
+  createdAt: new Date().toISOString()
+});
+
+export const validateGoal = (goal: Pick<Goal, 'name' | 'targetAmount' | 'targetDate' | 'monthlyContribution'>, today: string = toDateKey()): string | null => {
+  if (!goal.name.trim()) return '名称不能为空';
+  if (!isFinite(goal.targetAmount) || goal.targetAmount <= 0) return '目标金额须大于 0';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(goal.targetDate) || goal.targetDate <= today) return '目标日期须晚于今天';
+  if (!isFinite(goal.monthlyContribution) || goal.monthlyContribution < 0) return '每月投入无效';
+  return null;
+};
+
+// Goals for one portfolio view, nearest first
+export const selectGoals = (goals: Goal[], portfolioId: string): Goal[] =>
+  goals.filter(g => g.portfolioId === portfolioId).sort((a, b) => a.targetDate.localeCompare(b.targetDate));
+
+// Whole months from `from` to `to`, at least one: the most months that can be
+// added to `from`, clamped to month ends the way addMonths does, without passing `to`
+export const monthsUntil = (to: string, from: string = toDateKey()): number => {
+  const [fy, fm] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  let months = (ty - fy) * 12 + (tm - fm);
+  if (addMonths(from, months) > to) months--;
+  return Math.min(MAX_MONTHS, Math.max(1, months));
+};
+
+// mulberry32: small, fast and good enough for simulation; Math.random cannot be seeded
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draws by Box–Muller
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random(); // (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const percentile = (sorted: Float64Array, p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p / 100 * sorted.length))];
+
+// Simulates the holdings month by month. Each category follows a lognormal
+// walk with its own return and volatility, independently of the others;
+// contributions are split by the current category weights (all cash when
+// nothing is held yet).
+export const projectGoal = (assets: Asset[], fx: FxSettings, goal: Pick<Goal, 'targetAmount' | 'targetDate' | 'monthlyContribution'>, settings: PlanningSettings, today: string = toDateKey()): GoalProjection => {
+  const categories = Object.values(AssetCategory);
+  const start = categories.map(c => assets.filter(a => a.category === c).reduce((sum, a) => sum + Math.max(0, assetBaseAmount(a, fx)), 0));
+  const total = start.reduce((sum, v) => sum + v, 0);
+  const split = total > 0 ? start.map(v => v / total) : categories.map(c => c === AssetCategory.CASH ? 1 : 0);
+
+  // Monthly drift and spread of the log return, so the annual mean matches expectedReturn
+  const steps = categories.map(c => {
+    const { expectedReturn, volatility } = settings.assumptions[c] || DEFAULT_PLANNING_SETTINGS.assumptions[c];
+    const sigma = volatility / 100;
+    return { drift: (Math.log(1 + expectedReturn / 100) - sigma * sigma / 2) / 12, spread: sigma / Math.sqrt(12) };
+  });
+
+  const months = monthsUntil(goal.targetDate, today);
+  const runs = Math.max(1, Math.round(settings.simulations));
+  const normal = createNormal(createRandom(settings.seed));
+  const values = Array.from({ length: months + 1 }, () => new Float64Array(runs));
+
+  for (let run = 0; run < runs; run++) {
+    const holdings = [...start];
+    values[0][run] = total;
+    for (let month = 1; month <= months; month++) {
+      let sum = 0;
+      for (let c = 0; c < categories.length; c++) {
+        if (holdings[c] > 0) holdings[c] *= Math.exp(steps[c].drift + steps[c].spread * normal());
+        holdings[c] += goal.monthlyContribution * split[c];
+        sum += holdings[c];
+      }
+      values[month][run] = sum;
+    }
+  }
+
+  const points: ProjectionPoint[] = values.map((row, i) => {
+    const sorted = row.slice().sort();
+    return {
+      date: addMonths(today, i),
+      p10: percentile(sorted, 10),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p90: percentile(sorted, 90)
+    };
+  });
+  const reached = values[months].reduce((count, v) => count + (v >= goal.targetAmount ? 1 : 0), 0);
+  return { probability: reached / runs * 100, points };
+};
@@ -0,0 +1,54 @@
+import { Asset, FxSettings, HistoryPoint, PnlSummary } from "../types";
+import { assetBaseAmount, convertToBase } from "./fxService";
+import { assetCostBasis } from "./assetService";
+import { toDateKey } from "./snapshotService";
+
+// Latest snapshot from before `today` that recorded per-asset values
+const findPreviousSnapshot = (history: HistoryPoint[], today: string): HistoryPoint | undefined =>
+  [...history].reverse().find(point => point.date < today && point.assetValues);
+
+// Summarizes cost and P&L for `assets`. Today's P&L compares each holding with
+// its value in the previous snapshot; holdings that weren't in that snapshot
+// fall back to the daily change the app showed, and are otherwise left out
+// (a new holding is a deposit, not a gain).
+export const summarizePnl = (
+  assets: Asset[],
+  history: HistoryPoint[],
+  fx: FxSettings,
+  today: string = toDateKey()
+): PnlSummary => {
+  const previous = findPreviousSnapshot(history, today);
+  let totalValue = 0;
+  let totalCost = 0;
+  let todayPnl: number | null = null;
+  let startValue = 0;
+
+  for (const asset of assets) {
+    const value = assetBaseAmount(asset, fx);
+    totalValue += value;
+    totalCost += convertToBase(assetCostBasis(asset), asset.currency, fx);
+
+    const previousValue = previous?.assetValues?.[asset.id];
+    let change: number | undefined;
+    if (previous && previousValue !== undefined) {
+      const from = convertToBase(previousValue, previous.currency || fx.baseCurrency, fx);
+      change = value - from;
+    } else if (asset.dailyChange !== undefined) {
+      change = convertToBase(asset.dailyChange, asset.currency, fx);
+    }
+    if (change === undefined) continue;
+    todayPnl = (todayPnl ?? 0) + change;
+    startValue += value - change;
+  }
+
+  const unrealizedPnl = totalValue - totalCost;
+  return {
+    totalValue,
+    totalCost,
+    unrealizedPnl,
+    unrealizedPnlRate: totalCost > 0 ? (unrealizedPnl / totalCost) * 100 : 0,
+    todayPnl,
+    todayPnlRate: todayPnl !== null && startValue > 0 ? (todayPnl / startValue) * 100 : 0,
+    previousDate: previous?.date
+  };
+};
@@ -0,0 +1,24 @@
+import { ALL_PORTFOLIOS_ID, Asset, DEFAULT_PORTFOLIO_ID, Portfolio } from "../types";
+
+export const DEFAULT_PORTFOLIO: Portfolio = {
+  id: DEFAULT_PORTFOLIO_ID,
+  name: '默认账户',
+  createdAt: new Date(0).toISOString()
+};
+
+// Assets saved before portfolios existed belong to the default portfolio
+export const assetPortfolioId = (asset: Asset): string => asset.portfolioId || DEFAULT_PORTFOLIO_ID;
+
+export const filterByPortfolio = (assets: Asset[], portfolioId: string): Asset[] =>
+  portfolioId === ALL_PORTFOLIOS_ID ? assets : assets.filter(a => assetPortfolioId(a) === portfolioId);
+
+export const createPortfolio = (name: string): Portfolio => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  createdAt: new Date().toISOString()
+});
+
+export const portfolioName = (portfolios: Portfolio[], portfolioId: string): string =>
+  portfolioId === ALL_PORTFOLIOS_ID
+    ? '全部账户'
+    : portfolios.find(p => p.id === portfolioId)?.name || DEFAULT_PORTFOLIO.name;
@@ -0,0 +1,173 @@
+import { Asset, AssetValuation, FxSettings, HistoryPoint, PriceFeedSettings, PriceQuote } from "../types";
+import { normalizeCurrency } from "./fxService";
+import { buildSnapshot, toDateKey, upsertSnapshot } from "./snapshotService";
+
+export const DEFAULT_PRICE_FEED_SETTINGS: PriceFeedSettings = {
+  quoteUrl: ''
+};
+
+export const ValuationKindLabelMap: Record<AssetValuation['kind'], string> = {
+  screenshot: '截图估值',
+  market: '市价估值'
+};
+
+// Anything that can supply quotes for a list of codes. The HTTP source is the
+// only one built in; tests and offline setups can point it at a local server.
+export interface QuoteProvider {
+  label: string; // Recorded on each revalued asset
+  fetchQuotes: (codes: string[]) => Promise<PriceQuote[]>;
+}
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+const isDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Header names accepted for each column, in English and Chinese
+const CSV_COLUMNS: Record<keyof PriceQuote, string[]> = {
+  code: ['code', 'symbol', 'ticker', '代码', '基金代码', '证券代码'],
+  date: ['date', '日期', '净值日期'],
+  price: ['price', 'close', 'nav', '价格', '收盘价', '净值', '单位净值'],
+  currency: ['currency', '币种', '货币']
+};
+
+// Reads "code,date,price[,currency]" rows. A header row may name the columns
+// in any order; without one that order is assumed.
+export const parsePriceCsv = (csv: string): { quotes: PriceQuote[]; errors: string[] } => {
+  const quotes: PriceQuote[] = [];
+  const errors: string[] = [];
+  let columns: Record<keyof PriceQuote, number> = { code: 0, date: 1, price: 2, currency: 3 };
+
+  csv.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const cells = trimmed.split(/[,;\t]/).map(s => s.trim().replace(/^"|"$/g, ''));
+
+    if (quotes.length === 0 && errors.length === 0 && isNaN(Number(cells[2])) && !isDateKey(cells[1] || '')) {
+      const header = cells.map(c => c.toLowerCase());
+      const find = (key: keyof PriceQuote) => header.findIndex(h => CSV_COLUMNS[key].includes(h));
+      const found = { code: find('code'), date: find('date'), price: find('price'), currency: find('currency') };
+      if (found.code >= 0 && found.date >= 0 && found.price >= 0) {
+        columns = found;
+        return;
+      }
+    }
+
+    const code = cells[columns.code];
+    const date = (cells[columns.date] || '').replace(/\//g, '-');
+    const price = Number((cells[columns.price] || '').replace(/,/g, ''));
+    if (!code || !isDateKey(date) || !isFinite(price) || price <= 0) {
+      errors.push(`第 ${index + 1} 行无效: ${trimmed}`);
+      return;
+    }
+    const currency = columns.currency >= 0 ? cells[columns.currency] : undefined;
+    quotes.push({ code: normalizeCode(code), date, price, currency: currency ? normalizeCurrency(currency) : undefined });
+  });
+
+  return { quotes, errors };
+};
+
+// GETs `url?codes=A,B` and expects a JSON array of PriceQuote, or { quotes: [...] }
+export const createHttpQuoteProvider = (url: string): QuoteProvider => ({
+  label: (() => {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  })(),
+  fetchQuotes: async (codes) => {
+    const response = await fetch(`${url}${url.includes('?') ? '&' : '?'}codes=${encodeURIComponent(codes.join(','))}`);
+    if (!response.ok) throw new Error(`行情服务返回 ${response.status}`);
+    const body = await response.json();
+    const list: unknown[] = Array.isArray(body) ? body : Array.isArray(body?.quotes) ? body.quotes : [];
+    return list.flatMap((item: any): PriceQuote[] => {
+      const price = Number(item?.price);
+      const date = String(item?.date || '').slice(0, 10);
+      if (typeof item?.code !== 'string' || !isDateKey(date) || !isFinite(price) || price <= 0) return [];
+      return [{ code: normalizeCode(item.code), date, price, currency: item.currency ? normalizeCurrency(item.currency) : undefined }];
+    });
+  }
+});
+
+// Holdings that can be marked to market: a code to look up and a unit count to multiply
+export const isPriceable = (asset: Asset): boolean => !!asset.code && asset.quantity !== undefined && asset.quantity > 0;
+
+const quoteCodes = (asset: Asset): string[] => {
+  const code = normalizeCode(asset.code || '');
+  return asset.exchange ? [code, `${code}.${normalizeCode(asset.exchange)}`] : [code];
+};
+
+export const priceableCodes = (assets: Asset[]): string[] =>
+  Array.from(new Set(assets.filter(isPriceable).map(a => normalizeCode(a.code!))));
+
+// Date the asset's current amount is valid for
+const valuedOn = (asset: Asset) => asset.valuation?.priceDate || asset.lastUpdated.slice(0, 10);
+
+// The latest usable quote for an asset on or before `date`. Quotes older than
+// the asset's current value would move it backwards, so they are not used.
+const latestQuote = (asset: Asset, quotes: PriceQuote[], date: string): PriceQuote | undefined => {
+  const codes = quoteCodes(asset);
+  const currency = normalizeCurrency(asset.currency);
+  return quotes
+    .filter(q => codes.includes(q.code) && q.date <= date && q.date >= valuedOn(asset) && (!q.currency || q.currency === currency))
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+};
+
+const markToMarket = (asset: Asset, quote: PriceQuote, source: string): Asset => {
+  const amount = Number((asset.quantity! * quote.price).toFixed(2));
+  return {
+    ...asset,
+    amount,
+    price: quote.price,
+    returnRate: asset.costBasis ? Number(((amount - asset.costBasis) / asset.costBasis * 100).toFixed(2)) : asset.returnRate,
+    dailyChange: undefined,
+    lastUpdated: new Date(`${quote.date}T00:00:00`).toISOString(),
+    valuation: { kind: 'market', source, priceDate: quote.date }
+  };
+};
+
+const revalueOn = (assets: Asset[], quotes: PriceQuote[], date: string, source: string) => {
+  let updated = 0;
+  const next = assets.map(asset => {
+    if (!isPriceable(asset)) return asset;
+    const quote = latestQuote(asset, quotes, date);
+    if (!quote) return asset;
+    updated++;
+    return markToMarket(asset, quote, source);
+  });
+  return { assets: next, updated };
+};
+
+// Marks priceable holdings to the latest quotes and writes a snapshot for each
+// earlier quote date that has none yet; today's snapshot is left to the
+// snapshot engine, which rewrites it once the assets change.
+export const applyQuotes = (
+  assets: Asset[],
+  history: HistoryPoint[],
+  quotes: PriceQuote[],
+  fx: FxSettings,
+  source: string,
+  today: string = toDateKey()
+): { assets: Asset[]; history: HistoryPoint[]; updated: number; snapshots: number; unmatched: string[] } => {
+  const usable = quotes.filter(q => q.date <= today);
+  const matched = new Set(assets.filter(isPriceable).flatMap(quoteCodes));
+  const existing = new Set(history.map(h => h.date));
+  const dates = Array.from(new Set(usable.filter(q => matched.has(q.code)).map(q => q.date)))
+    .filter(d => d < today && !existing.has(d))
+    .sort();
+
+  let nextHistory = history;
+  dates.forEach(date => {
+    const { assets: valued, updated } = revalueOn(assets, usable, date, source);
+    if (updated > 0) nextHistory = upsertSnapshot(nextHistory, buildSnapshot(date, valued, fx, 'market'));
+  });
+
+  const { assets: next, updated } = revalueOn(assets, usable, today, source);
+  return {
+    assets: next,
+    history: nextHistory,
+    updated,
+    snapshots: nextHistory.length - history.length,
+    unmatched: Array.from(new Set(usable.map(q => q.code).filter(code => !matched.has(code))))
+  };
+};
@@ -0,0 +1,5 @@
+// Privacy mode hides amounts on screen, e.g. when sharing it. Return rates,
+// weights and the shape of the charts stay visible.
+export const PRIVACY_MASK = '****';
+
+export const maskAmount = (text: string, privacy: boolean): string => privacy ? PRIVACY_MASK : text;
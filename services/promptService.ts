@@ -0,0 +1,124 @@
+import { AnalysisResponse, Asset, FxSettings, HistoryPoint, RiskMetrics } from "../types";
+import { assetBaseAmount, normalizeCurrency } from "./fxService";
+import { assetUnrealizedPnl } from "./assetService";
+
+// Prompts and response handling shared by every AI provider
+
+export const HOLDINGS_EXTRACTION_PROMPT = `分析这张投资APP的持仓截图。提取所有可见的持仓信息。
+                 返回一个 JSON 列表。
+                 对于 'category' (类别)，请根据中文名称映射到以下英文枚举之一: Stock (股票), Fund (基金), Bond (债券), Crypto (数字货币), Cash (现金), Other (其他)。
+                 对于 'amount' (金额)，提取总市值/总资产，按截图原样保留数字文本及单位（例如 "12,345.67"、"1.2万"）。
+                 对于 'returnRate' (收益率)，按截图原样提取百分比文本（正数或负数），例如 "+5.5%"。
+                 对于 'currency' (货币)，假设截图中的货币符号（例如 USD, CNY, ¥），默认为 CNY。
+                 如果截图顶部或底部有被截断、显示不完整的行，请忽略该行。
+                 对于 'name' (名称)，提取产品名称。
+                 对于 'code' (代码)，提取股票代码或基金代码（如 600519、00700、AAPL），没有则留空。
+                 对于 'exchange' (交易所)，如 SH、SZ、HK、NASDAQ，无法判断则留空。
+                 对于 'broker' (券商/平台)，如截图可见 APP 或券商名称（如 招商证券、支付宝），否则留空。
+                 对于 'account' (账户)，如截图可见资金账号或账户名称，否则留空。
+                 以下持仓明细字段按截图原样保留数字文本，截图中没有则留空：
+                 'quantity' (持仓数量/份额)，'price' (现价/最新净值)，'costPrice' (成本价/持仓均价)，
+                 'costBasis' (持仓成本总额)，'profit' (持有收益/持仓盈亏)，'dailyChange' (当日盈亏/昨日收益，金额而非百分比)。
+                 对于 'box'，给出该持仓所在行在图片中的位置 [ymin, xmin, ymax, xmax]，按 0-1000 归一化的整数，无法确定则留空。`;
+
+// Map category to Chinese for better prompt context
+const categoryMap: Record<string, string> = {
+    'Stock': '股票',
+    'Fund': '基金',
+    'Bond': '债券',
+    'Crypto': '数字货币',
+    'Cash': '现金',
+    'Other': '其他'
+};
+
+// One line per holding with its weight and P&L, plus the base-currency total
+const summarizeHoldings = (assets: Asset[], fx: FxSettings): { totalBase: number; assetsSummary: string } => {
+  const totalBase = assets.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+
+  const assetsSummary = assets.map(a => {
+    const baseAmount = assetBaseAmount(a, fx);
+    const converted = normalizeCurrency(a.currency) === fx.baseCurrency ? '' : ` (折合 ${baseAmount.toFixed(2)} ${fx.baseCurrency})`;
+    const weight = totalBase > 0 ? (baseAmount / totalBase * 100).toFixed(1) : '0';
+    return `- ${a.name} (${categoryMap[a.category] || a.category}): ${a.amount} ${a.currency}${converted}, 占比: ${weight}%, 收益率: ${a.returnRate}%, 持仓盈亏: ${assetUnrealizedPnl(a).toFixed(2)} ${a.currency}`;
+  }).join('\n');
+
+  return { totalBase, assetsSummary };
+};
+
+const formatPercent = (value: number | null) => value === null ? '数据不足' : `${value.toFixed(2)}%`;
+
+// Locally computed risk figures, so the model reasons from measured numbers
+const summarizeRisk = (risk: RiskMetrics): string => {
+  const drawdown = risk.maxDrawdown
+    ? `${risk.maxDrawdown.depth.toFixed(2)}%（${risk.maxDrawdown.peakDate} 至 ${risk.maxDrawdown.troughDate}，${risk.maxDrawdown.recoveryDate ? `${risk.maxDrawdown.recoveryDate} 收复` : '尚未收复'}）`
+    : '无';
+  const top = (c: RiskMetrics['byAsset']) => c.top.map(t => `${t.name} ${t.weight.toFixed(1)}%`).join('、');
+  return [
+    `- 年化收益（时间加权）: ${formatPercent(risk.annualizedReturn)}`,
+    `- 年化波动率: ${formatPercent(risk.volatility)}`,
+    `- 夏普比率: ${risk.sharpe === null ? '数据不足' : risk.sharpe.toFixed(2)}`,
+    `- 最大回撤: ${drawdown}`,
+    `- 前 ${risk.byAsset.top.length} 大持仓合计 ${risk.byAsset.topWeight.toFixed(1)}%（${top(risk.byAsset)}），持仓 HHI ${risk.byAsset.hhi.toFixed(0)}`,
+    `- 资产类别 HHI ${risk.byCategory.hhi.toFixed(0)}（${top(risk.byCategory)}）`
+  ].join('\n    ');
+};
+
+export const buildAnalysisPrompt = (assets: Asset[], fx: FxSettings, risk?: RiskMetrics): string => {
+  const { totalBase, assetsSummary } = summarizeHoldings(assets, fx);
+
+  return `
+    你是一位服务高净值客户的资深财富管理专家。
+    请分析以下客户的投资持仓组合（总资产折合 ${totalBase.toFixed(2)} ${fx.baseCurrency}）：
+    ${assetsSummary}
+${risk ? `
+    根据历史净值快照计算的风险指标（HHI 为赫芬达尔指数，0-10000，越高越集中）：
+    ${summarizeRisk(risk)}
+    请在风险评分和建议中参考以上指标。
+` : ''}
+    请以 JSON 对象提供一份专业的中文分析报告，包含以下字段：
+    1. riskScore: 组合风险评分，1（非常保守）到 10（非常激进）的整数。
+    2. summary: 一段简洁的总体评价（配置多元化程度与主要风险敞口）。
+    3. concentrationWarnings: 集中度风险列表，每项为 {"holdings": [涉及的持仓名称，须与上方名称完全一致], "message": 说明}，没有则返回空数组。
+    4. suggestions: 可执行的调整建议列表，每项为 {"asset": 持仓名称或资产类别, "action": "buy" | "sell" | "hold" | "rebalance" | "review", "rationale": 理由, "priority": "high" | "medium" | "low"}。
+    5. diversification: 每个资产类别的分散度评级，每项为 {"category": "Stock" | "Fund" | "Bond" | "Crypto" | "Cash" | "Other", "rating": "good" | "fair" | "poor", "comment": 简评}。
+
+    语气要求：尊贵、专业、简洁、有深度。
+  `;
+};
+
+// Number of most recent snapshots included in the chat context
+const CHAT_HISTORY_POINTS = 12;
+
+// Grounds a follow-up conversation in the holdings, the latest report and the recent trend
+export const buildChatSystemPrompt = (
+  assets: Asset[],
+  fx: FxSettings,
+  analysis: AnalysisResponse | undefined,
+  history: HistoryPoint[]
+): string => {
+  const { totalBase, assetsSummary } = summarizeHoldings(assets, fx);
+  const trend = history
+    .slice(-CHAT_HISTORY_POINTS)
+    .map(p => `- ${p.date}: 净值 ${p.totalNetWorth.toFixed(2)} ${p.currency || fx.baseCurrency}，收益率 ${p.totalReturnRate.toFixed(2)}%`)
+    .join('\n');
+  const report = analysis
+    ? `风险评分 ${analysis.riskScore}/10。${analysis.summary}\n建议：\n${analysis.suggestions
+        .map(s => `- [${s.action}/${s.priority}/${s.status}] ${s.asset || '整体组合'}：${s.rationale}`)
+        .join('\n')}`
+    : '尚未生成分析报告。';
+
+  return `
+    你是一位服务高净值客户的资深财富管理专家，正在就客户的投资组合回答追问。
+    只根据以下数据作答，数据中没有的信息要明确说明；涉及假设性调整时给出具体金额与调整后的占比。
+    回答使用简洁的中文，不要输出 JSON。
+
+    当前持仓（总资产折合 ${totalBase.toFixed(2)} ${fx.baseCurrency}）：
+    ${assetsSummary || '暂无持仓'}
+
+    最近一次分析报告：
+    ${report}
+
+    近期净值走势：
+    ${trend || '暂无历史快照'}
+  `;
+};
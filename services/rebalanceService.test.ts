@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AllocationTarget, Asset, AssetCategory } from '../types';
+import { DEFAULT_FX_SETTINGS } from './fxService';
+import { computeDrift, planRebalance, validateTargets } from './rebalanceService';
+
+const asset = (id: string, category: AssetCategory, amount: number): Asset => ({
+  id, name: `资产 ${id}`, category, amount, returnRate: 0, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z'
+});
+
+const target = (scope: AllocationTarget['scope'], key: string, weight: number): AllocationTarget => ({ scope, key, weight, band: 5 });
+
+const assets = [asset('s', AssetCategory.STOCK, 700), asset('b', AssetCategory.BOND, 300)];
+
+describe('validateTargets', () => {
+  it('accepts weights that add up to 100%', () => {
+    expect(validateTargets([target('category', AssetCategory.STOCK, 60), target('category', AssetCategory.BOND, 40)], assets)).toBeNull();
+  });
+
+  it('rejects weights that do not add up to 100%', () => {
+    expect(validateTargets([target('category', AssetCategory.STOCK, 60)], assets)).toContain('60.0%');
+  });
+
+  it('rejects targets for assets that are gone', () => {
+    const targets = [target('category', AssetCategory.STOCK, 60), target('asset', 'deleted', 40)];
+    expect(validateTargets(targets, assets)).toContain('已删除');
+  });
+});
+
+describe('planRebalance', () => {
+  const drifts = computeDrift(assets, [target('category', AssetCategory.STOCK, 60), target('category', AssetCategory.BOND, 40)], DEFAULT_FX_SETTINGS);
+
+  it('flags slices outside their band', () => {
+    expect(drifts.map(d => [d.key, d.breached])).toEqual([[AssetCategory.STOCK, true], [AssetCategory.BOND, true]]);
+  });
+
+  it('sells what is over target and buys what is under', () => {
+    expect(planRebalance(drifts, 0, false).trades.map(t => t.amount)).toEqual([-100, 100]);
+  });
+
+  it('only buys with new cash when selling is off', () => {
+    expect(planRebalance(drifts, 200, true).trades.map(t => t.amount)).toEqual([20, 180]);
+  });
+});
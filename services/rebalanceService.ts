@@ -0,0 +1,106 @@
+import { AllocationDrift, AllocationTarget, Asset, FxSettings, RebalancePlan } from "../types";
+import { assetBaseAmount } from "./fxService";
+
+// Percentage points a slice may drift from its target before it is flagged
+export const DEFAULT_DRIFT_BAND = 5;
+
+const sliceKey = (scope: AllocationTarget['scope'], key: string) => `${scope}:${key}`;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Asset targets whose asset has been deleted (or is no longer in this view)
+export const findOrphanTargets = (targets: AllocationTarget[], assets: Asset[]): AllocationTarget[] =>
+  targets.filter(t => t.scope === 'asset' && !assets.some(a => a.id === t.key));
+
+export const validateTargets = (targets: AllocationTarget[], assets: Asset[]): string | null => {
+  if (targets.length === 0) return null;
+  const orphans = findOrphanTargets(targets, assets).length;
+  if (orphans > 0) return `${orphans} 个单项目标对应的资产已删除，请移除后再调整比例`;
+  if (targets.some(t => !isFinite(t.weight) || t.weight < 0 || t.weight > 100)) return '目标比例需在 0-100% 之间';
+  if (targets.some(t => !isFinite(t.band) || t.band < 0)) return '容忍区间不能为负数';
+  const sum = targets.reduce((acc, t) => acc + t.weight, 0);
+  if (Math.abs(sum - 100) > 0.01) return `目标比例合计 ${sum.toFixed(1)}%，需等于 100%`;
+  return null;
+};
+
+// Compares the current split of `assets` with the targets. Categories that are
+// held but have no target are listed with a 0% target, so the plan sells them.
+export const computeDrift = (assets: Asset[], targets: AllocationTarget[], fx: FxSettings): AllocationDrift[] => {
+  if (targets.length === 0) return [];
+
+  const assetTargetIds = new Set(targets.filter(t => t.scope === 'asset').map(t => t.key));
+  const values = new Map<string, number>();
+  let total = 0;
+  assets.forEach(asset => {
+    const value = assetBaseAmount(asset, fx);
+    const key = assetTargetIds.has(asset.id) ? sliceKey('asset', asset.id) : sliceKey('category', asset.category);
+    values.set(key, (values.get(key) || 0) + value);
+    total += value;
+  });
+
+  const slices: AllocationTarget[] = [...targets];
+  assets.forEach(asset => {
+    if (assetTargetIds.has(asset.id)) return;
+    if (slices.some(t => t.scope === 'category' && t.key === asset.category)) return;
+    slices.push({ scope: 'category', key: asset.category, weight: 0, band: DEFAULT_DRIFT_BAND });
+  });
+
+  return slices.map(target => {
+    const value = values.get(sliceKey(target.scope, target.key)) || 0;
+    const currentWeight = total > 0 ? (value / total) * 100 : 0;
+    const drift = currentWeight - target.weight;
+    return { ...target, value, currentWeight, drift, breached: total > 0 && Math.abs(drift) > target.band };
+  });
+};
+
+// Buy and sell amounts that bring every slice back to its target once
+// `newCash` is added. In cash-only mode nothing is sold: the new cash goes to
+// underweight slices in proportion to their shortfall, and anything left after
+// all shortfalls are covered is spread by target weight.
+export const planRebalance = (drifts: AllocationDrift[], newCash: number, cashOnly: boolean): RebalancePlan => {
+  const cash = Math.max(0, newCash || 0);
+  const total = drifts.reduce((sum, d) => sum + d.value, 0) + cash;
+  const targetValues = drifts.map(d => (total * d.weight) / 100);
+
+  let amounts: number[];
+  if (!cashOnly) {
+    amounts = drifts.map((d, i) => targetValues[i] - d.value);
+  } else {
+    const shortfalls = drifts.map((d, i) => Math.max(0, targetValues[i] - d.value));
+    const needed = shortfalls.reduce((sum, s) => sum + s, 0);
+    amounts = needed >= cash
+      ? shortfalls.map(s => (needed > 0 ? (cash * s) / needed : 0))
+      : shortfalls.map((s, i) => s + ((cash - needed) * drifts[i].weight) / 100);
+  }
+
+  return {
+    trades: drifts.map((d, i) => ({
+      scope: d.scope,
+      key: d.key,
+      currentValue: d.value,
+      targetValue: targetValues[i],
+      amount: roundCents(amounts[i])
+    })),
+    newCash: cash,
+    cashOnly
+  };
+};
+
+// Starting point for editing: one category target per held category at its
+// current weight, rounded to whole percents with the remainder on the largest
+export const seedTargetsFromCurrent = (assets: Asset[], fx: FxSettings): AllocationTarget[] => {
+  const values = new Map<string, number>();
+  let total = 0;
+  assets.forEach(asset => {
+    const value = assetBaseAmount(asset, fx);
+    values.set(asset.category, (values.get(asset.category) || 0) + value);
+    total += value;
+  });
+  if (total <= 0) return [];
+
+  const targets: AllocationTarget[] = Array.from(values.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, value]) => ({ scope: 'category', key, weight: Math.round((value / total) * 100), band: DEFAULT_DRIFT_BAND }));
+  targets[0].weight += 100 - targets.reduce((sum, t) => sum + t.weight, 0);
+  return targets;
+};
@@ -0,0 +1,102 @@
+import { Asset, Concentration, DrawdownPoint, FxSettings, MaxDrawdown, PerformancePoint, RiskMetrics, RiskSettings } from "../types";
+import { CategoryDisplayMap } from "../constants";
+import { assetBaseAmount } from "./fxService";
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  riskFreeRate: 2,
+  topN: 3
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / DAY_MS;
+
+// Growth of one unit over the period, from the cumulative time-weighted return
+const growthIndex = (series: PerformancePoint[]) => series.map(point => 1 + point.twr / 100);
+
+// Snapshots are irregular, so returns are annualized by the average spacing
+// between them rather than by assuming daily data
+const annualize = (series: PerformancePoint[]) => {
+  if (series.length < 2) return null;
+  const days = daysBetween(series[0].date, series[series.length - 1].date);
+  if (days <= 0) return null;
+  const growth = growthIndex(series);
+  const steps = growth.slice(1).map((value, i) => growth[i] > 0 ? value / growth[i] - 1 : 0);
+  const periodsPerYear = 365 / (days / steps.length);
+
+  const annualizedReturn = growth[growth.length - 1] > 0
+    ? (Math.pow(growth[growth.length - 1], 365 / days) - 1) * 100
+    : -100;
+  if (steps.length < 2) return { annualizedReturn, volatility: null };
+
+  const mean = steps.reduce((sum, r) => sum + r, 0) / steps.length;
+  const variance = steps.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (steps.length - 1);
+  return { annualizedReturn, volatility: Math.sqrt(variance * periodsPerYear) * 100 };
+};
+
+export const computeDrawdowns = (series: PerformancePoint[]): { drawdowns: DrawdownPoint[]; maxDrawdown: MaxDrawdown | null } => {
+  const growth = growthIndex(series);
+  const drawdowns: DrawdownPoint[] = [];
+  let peak = -Infinity;
+  let peakDate = '';
+  let maxDrawdown: MaxDrawdown | null = null;
+
+  for (let i = 0; i < series.length; i++) {
+    if (growth[i] >= peak) {
+      peak = growth[i];
+      peakDate = series[i].date;
+    }
+    const drawdown = peak > 0 ? (growth[i] / peak - 1) * 100 : 0;
+    drawdowns.push({ date: series[i].date, drawdown });
+    if (drawdown < 0 && (!maxDrawdown || drawdown < maxDrawdown.depth)) {
+      maxDrawdown = { depth: drawdown, peakDate, troughDate: series[i].date };
+    }
+  }
+
+  if (maxDrawdown) {
+    const { peakDate: from, troughDate } = maxDrawdown;
+    const peakValue = growth[series.findIndex(p => p.date === from)];
+    const recovery = series.find((point, i) => point.date > troughDate && growth[i] >= peakValue);
+    if (recovery) maxDrawdown = { ...maxDrawdown, recoveryDate: recovery.date };
+  }
+  return { drawdowns, maxDrawdown };
+};
+
+// Top-N weight and Herfindahl index of a set of named values. Negative values
+// (e.g. a margin loan) are left out, as they are not a share of anything.
+export const computeConcentration = (values: { name: string; value: number }[], topN: number): Concentration => {
+  const positive = values.filter(v => v.value > 0);
+  const total = positive.reduce((sum, v) => sum + v.value, 0);
+  if (total <= 0) return { top: [], topWeight: 0, hhi: 0 };
+
+  const weights = positive
+    .map(v => ({ name: v.name, weight: v.value / total * 100 }))
+    .sort((a, b) => b.weight - a.weight);
+  const top = weights.slice(0, Math.max(1, topN));
+  return {
+    top,
+    topWeight: top.reduce((sum, w) => sum + w.weight, 0),
+    hhi: weights.reduce((sum, w) => sum + w.weight ** 2, 0)
+  };
+};
+
+export const computeRiskMetrics = (series: PerformancePoint[], assets: Asset[], fx: FxSettings, settings: RiskSettings): RiskMetrics => {
+  const annual = annualize(series);
+  const { drawdowns, maxDrawdown } = computeDrawdowns(series);
+
+  const categoryValues: Record<string, number> = {};
+  assets.forEach(a => { categoryValues[a.category] = (categoryValues[a.category] || 0) + assetBaseAmount(a, fx); });
+
+  return {
+    annualizedReturn: annual?.annualizedReturn ?? null,
+    volatility: annual?.volatility ?? null,
+    sharpe: annual && annual.volatility ? (annual.annualizedReturn - settings.riskFreeRate) / annual.volatility : null,
+    maxDrawdown,
+    drawdowns,
+    byAsset: computeConcentration(assets.map(a => ({ name: a.name, value: assetBaseAmount(a, fx) })), settings.topN),
+    byCategory: computeConcentration(
+      Object.entries(categoryValues).map(([category, value]) => ({ name: CategoryDisplayMap[category] || category, value })),
+      settings.topN
+    )
+  };
+};
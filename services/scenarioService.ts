@@ -0,0 +1,125 @@
+import { Asset, AssetCategory, FxSettings, PerformancePoint, Scenario, ScenarioTrade } from "../types";
+import { CategoryDisplayMap } from "../constants";
+import { assetBaseAmount } from "./fxService";
+import { toDateKey } from "./snapshotService";
+
+export const createScenario = (portfolioId: string, name: string): Scenario => ({
+  id: crypto.randomUUID(),
+  portfolioId,
+  name: name.trim(),
+  createdAt: new Date().toISOString(),
+  trades: [],
+  shocks: {}
+});
+
+export const createScenarioTrade = (from?: string): ScenarioTrade => ({
+  id: crypto.randomUUID(),
+  from,
+  share: from ? 50 : undefined,
+  amount: from ? undefined : 0,
+  to: AssetCategory.CASH
+});
+
+// Scenarios saved for one portfolio view, newest first
+export const selectScenarios = (scenarios: Scenario[], portfolioId: string): Scenario[] =>
+  scenarios.filter(s => s.portfolioId === portfolioId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+// Id of the simulated holding that collects everything moved into a category
+const simulatedId = (category: AssetCategory) => `scenario:${category}`;
+
+export const isSimulatedAsset = (asset: Asset): boolean => asset.id.startsWith('scenario:');
+
+// Scales a holding down to `keep` of itself; per-unit fields stay as they are
+const scaleAsset = (asset: Asset, keep: number): Asset => ({
+  ...asset,
+  amount: asset.amount * keep,
+  quantity: asset.quantity === undefined ? undefined : asset.quantity * keep,
+  costBasis: asset.costBasis === undefined ? undefined : asset.costBasis * keep,
+  dailyChange: undefined
+});
+
+const totalValue = (assets: Asset[], fx: FxSettings) => assets.reduce((sum, a) => sum + assetBaseAmount(a, fx), 0);
+
+// Applies the trades, then the shocks, to a copy of the holdings. Trades that
+// cannot be carried out are skipped or capped, with a warning for each.
+// shockReturn is what the shocks alone do to the traded portfolio, percentage.
+export const applyScenario = (
+  assets: Asset[],
+  scenario: Pick<Scenario, 'trades' | 'shocks'>,
+  fx: FxSettings
+): { assets: Asset[]; warnings: string[]; shockReturn: number } => {
+  const warnings: string[] = [];
+  let result = assets.map(a => ({ ...a }));
+  const now = new Date().toISOString();
+
+  scenario.trades.forEach((trade, index) => {
+    const label = `第 ${index + 1} 笔`;
+    let moved = trade.amount ?? 0; // In the base currency
+
+    if (trade.from) {
+      const source = result.find(a => a.id === trade.from);
+      if (!source) {
+        warnings.push(`${label}：持仓已不存在，已跳过。`);
+        return;
+      }
+      const value = assetBaseAmount(source, fx);
+      moved = trade.share !== undefined ? value * trade.share / 100 : moved;
+      if (moved > value) {
+        warnings.push(`${label}：超过 ${source.name} 的持仓，按全部转出计算。`);
+        moved = value;
+      }
+      const keep = value > 0 ? 1 - moved / value : 1;
+      result = keep > 0
+        ? result.map(a => a.id === source.id ? scaleAsset(a, keep) : a)
+        : result.filter(a => a.id !== source.id);
+    }
+    if (!(moved > 0)) return;
+
+    const id = simulatedId(trade.to);
+    const existing = result.find(a => a.id === id);
+    result = existing
+      ? result.map(a => a.id === id ? { ...a, amount: a.amount + moved, costBasis: (a.costBasis || 0) + moved } : a)
+      : [...result, {
+          id,
+          name: `${CategoryDisplayMap[trade.to]}（模拟）`,
+          category: trade.to,
+          amount: moved,
+          costBasis: moved,
+          returnRate: 0,
+          currency: fx.baseCurrency,
+          lastUpdated: now
+        }];
+  });
+
+  const traded = totalValue(result, fx);
+  result = result.map(a => {
+    const shock = scenario.shocks[a.category];
+    if (!shock) return a;
+    const factor = 1 + shock / 100;
+    return {
+      ...a,
+      amount: a.amount * factor,
+      price: a.price === undefined ? undefined : a.price * factor,
+      returnRate: Number((((1 + a.returnRate / 100) * factor - 1) * 100).toFixed(2)),
+      dailyChange: undefined
+    };
+  });
+
+  const shocked = totalValue(result, fx);
+  return { assets: result, warnings, shockReturn: traded > 0 ? (shocked / traded - 1) * 100 : 0 };
+};
+
+// The performance series with one more point at the shocked value. Trades only
+// move money around, so the shock alone counts as a return; the point is dated
+// the day after the last snapshot to keep the series in order.
+export const stressSeries = (series: PerformancePoint[], shockReturn: number): PerformancePoint[] => {
+  if (series.length === 0 || shockReturn === 0) return series;
+  const last = series[series.length - 1];
+  const [year, month, day] = last.date.split('-').map(Number);
+  const factor = 1 + shockReturn / 100;
+  return [...series, {
+    date: toDateKey(new Date(year, month - 1, day + 1)),
+    netWorth: last.netWorth * factor,
+    twr: ((1 + last.twr / 100) * factor - 1) * 100
+  }];
+};
@@ -0,0 +1,123 @@
+import { ALL_PORTFOLIOS_ID, Asset, FxSettings, HistoryPoint, PortfolioSnapshot } from "../types";
+import { assetBaseAmount, convertToBase } from "./fxService";
+import { assetPortfolioId } from "./portfolioService";
+import { assetCostBasis } from "./assetService";
+
+// Local calendar day, so a snapshot taken in the evening in UTC+8 lands on the right date
+export const toDateKey = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// The same day `months` months away (negative goes back), clamped to the end
+// of shorter months: one month after Jan 31 is Feb 28/29, not Mar 3
+export const addMonths = (dateKey: string, months: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const target = month - 1 + months;
+  const lastDay = new Date(year, target + 1, 0).getDate();
+  return toDateKey(new Date(year, target, Math.min(day, lastDay)));
+};
+
+const valueHoldings = (assets: Asset[], fx: FxSettings) => {
+  const assetValues: Record<string, number> = {};
+  const categoryValues: Record<string, number> = {};
+  const categoryCosts: Record<string, number> = {};
+  let totalNetWorth = 0;
+  let totalCost = 0;
+
+  // Return rates are gain over cost, so they match the P&L shown on the dashboard
+  assets.forEach(asset => {
+    const value = assetBaseAmount(asset, fx);
+    const cost = convertToBase(assetCostBasis(asset), asset.currency, fx);
+    assetValues[asset.id] = value;
+    categoryValues[asset.category] = (categoryValues[asset.category] || 0) + value;
+    categoryCosts[asset.category] = (categoryCosts[asset.category] || 0) + cost;
+    totalNetWorth += value;
+    totalCost += cost;
+  });
+
+  const categoryReturnRates: Record<string, number> = {};
+  Object.keys(categoryValues).forEach(category => {
+    const cost = categoryCosts[category];
+    categoryReturnRates[category] = cost > 0 ? ((categoryValues[category] - cost) / cost) * 100 : 0;
+  });
+
+  return {
+    totalNetWorth,
+    totalReturnRate: totalCost > 0 ? ((totalNetWorth - totalCost) / totalCost) * 100 : 0,
+    assetValues,
+    categoryValues,
+    categoryReturnRates
+  };
+};
+
+// Values the given holdings into a snapshot, in the base currency, with a
+// breakdown per portfolio alongside the consolidated totals
+export const buildSnapshot = (
+  date: string,
+  assets: Asset[],
+  fx: FxSettings,
+  source: HistoryPoint['source'] = 'auto'
+): HistoryPoint => {
+  const portfolioIds = Array.from(new Set(assets.map(assetPortfolioId)));
+  const portfolios: Record<string, PortfolioSnapshot> = {};
+  portfolioIds.forEach(id => {
+    const { assetValues, ...totals } = valueHoldings(assets.filter(a => assetPortfolioId(a) === id), fx);
+    portfolios[id] = totals;
+  });
+
+  return {
+    date,
+    ...valueHoldings(assets, fx),
+    currency: fx.baseCurrency,
+    portfolios,
+    source
+  };
+};
+
+// The history series of a single portfolio, shaped like the consolidated one so
+// charts can render either. Points without a breakdown for the portfolio are skipped.
+export const selectPortfolioHistory = (history: HistoryPoint[], portfolioId: string): HistoryPoint[] => {
+  if (portfolioId === ALL_PORTFOLIOS_ID) return history;
+  return history.flatMap(point => {
+    const snapshot = point.portfolios?.[portfolioId];
+    return snapshot ? [{ date: point.date, currency: point.currency, source: point.source, ...snapshot }] : [];
+  });
+};
+
+// Inserts or replaces the snapshot for point.date, keeping history sorted by date
+export const upsertSnapshot = (history: HistoryPoint[], point: HistoryPoint): HistoryPoint[] =>
+  [...history.filter(h => h.date !== point.date), point].sort((a, b) => a.date.localeCompare(b.date));
+
+export const removeSnapshot = (history: HistoryPoint[], date: string): HistoryPoint[] =>
+  history.filter(h => h.date !== date);
+
+const convertValues = (values: Record<string, number> | undefined, from: string, fx: FxSettings) => {
+  if (!values) return undefined;
+  const converted: Record<string, number> = {};
+  Object.entries(values).forEach(([key, value]) => {
+    converted[key] = convertToBase(value, from, fx);
+  });
+  return converted;
+};
+
+// Re-expresses a snapshot in fx.baseCurrency. Points without a currency are
+// assumed to be in `fallbackCurrency` (the base at the time they were written).
+export const rebaseSnapshot = (point: HistoryPoint, fallbackCurrency: string, fx: FxSettings): HistoryPoint => {
+  const from = point.currency || fallbackCurrency;
+  if (from === fx.baseCurrency) return { ...point, currency: from };
+  return {
+    ...point,
+    totalNetWorth: convertToBase(point.totalNetWorth, from, fx),
+    assetValues: convertValues(point.assetValues, from, fx),
+    categoryValues: convertValues(point.categoryValues, from, fx),
+    portfolios: point.portfolios && Object.fromEntries(
+      Object.entries(point.portfolios).map(([id, snapshot]) => [id, {
+        ...snapshot,
+        totalNetWorth: convertToBase(snapshot.totalNetWorth, from, fx),
+        categoryValues: convertValues(snapshot.categoryValues, from, fx) || {}
+      }])
+    ),
+    currency: fx.baseCurrency
+  };
+};
@@ -0,0 +1,159 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Asset, AssetCategory, BackupData, HistoryPoint } from '../types';
+
+// storageService keeps the open database and what it last saved in module
+// state, so every test gets a fresh database and a fresh copy of the module
+const loadModule = () => import('./storageService');
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    get length() { return items.size; }
+  };
+};
+
+const asset = (id: string, amount: number): Asset => ({
+  id, name: `资产 ${id}`, category: AssetCategory.STOCK, amount, returnRate: 0, currency: 'CNY', lastUpdated: '2024-01-01T00:00:00.000Z'
+});
+
+const point = (date: string, totalNetWorth: number): HistoryPoint => ({ date, totalNetWorth, totalReturnRate: 0, currency: 'CNY' });
+
+const readQuarantine = (): Promise<{ store: string; value: unknown }[]> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open('aurum');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const all = db.transaction('quarantine').objectStore('quarantine').getAll();
+      all.onsuccess = () => { db.close(); resolve(all.result); };
+      all.onerror = () => reject(all.error);
+    };
+  });
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+describe('migration from localStorage', () => {
+  it('moves the aurum_* keys into IndexedDB and removes them', async () => {
+    localStorage.setItem('aurum_assets', JSON.stringify([asset('a', 100)]));
+    localStorage.setItem('aurum_history', JSON.stringify([point('2024-01-02', 100), point('2024-01-01', 90)]));
+    localStorage.setItem('aurum_fx', JSON.stringify({ baseCurrency: 'USD', rates: { USD: 1 } }));
+
+    const { loadState } = await loadModule();
+    const { state, warnings } = await loadState();
+
+    expect(warnings).toEqual([]);
+    expect(state.assets).toEqual([asset('a', 100)]);
+    expect(state.history.map(p => p.date)).toEqual(['2024-01-01', '2024-01-02']);
+    expect(state.fx?.baseCurrency).toBe('USD');
+    expect(localStorage.getItem('aurum_assets')).toBeNull();
+    expect(localStorage.getItem('aurum_history')).toBeNull();
+    expect(localStorage.getItem('aurum_fx')).toBeNull();
+  });
+
+  it('quarantines what does not parse or validate and keeps the rest', async () => {
+    localStorage.setItem('aurum_assets', JSON.stringify([asset('a', 100), { name: 'no id' }]));
+    localStorage.setItem('aurum_chats', '{not json');
+
+    const { loadState } = await loadModule();
+    const { state, warnings } = await loadState();
+
+    expect(state.assets.map(a => a.id)).toEqual(['a']);
+    expect(state.chats).toBeUndefined();
+    expect(warnings).toHaveLength(2);
+    const quarantined = await readQuarantine();
+    expect(quarantined.map(q => q.store).sort()).toEqual(['assets', 'aurum_chats']);
+    expect(localStorage.getItem('aurum_chats')).toBeNull();
+  });
+
+  it('converts reports saved before analyses were structured', async () => {
+    const prose = { assetAllocationAnalysis: '股票占比偏高', investmentAdvice: '分散投资', adjustmentSuggestions: '减持股票' };
+    localStorage.setItem('aurum_analyses', JSON.stringify([{ id: 'r1', createdAt: '2024-01-01T00:00:00.000Z', portfolioId: 'all', holdings: [], snapshot: point('2024-01-01', 0), analysis: prose }]));
+
+    const { loadState } = await loadModule();
+    const { state, warnings } = await loadState();
+
+    expect(warnings).toEqual([]);
+    expect(state.analyses).toHaveLength(1);
+    expect(state.analyses[0].analysis).toMatchObject({ riskScore: 0, summary: '股票占比偏高\n\n分散投资\n\n减持股票', suggestions: [] });
+  });
+
+  it('carries over the single report from before report history existed', async () => {
+    localStorage.setItem('aurum_analysis', JSON.stringify({ assetAllocationAnalysis: '均衡', investmentAdvice: '', adjustmentSuggestions: '' }));
+
+    const { loadState } = await loadModule();
+    const { state } = await loadState();
+
+    expect(state.analyses.map(r => r.analysis.summary)).toEqual(['均衡']);
+    expect(localStorage.getItem('aurum_analysis')).toBeNull();
+  });
+
+  it('quarantines an old single report it cannot read before removing it', async () => {
+    localStorage.setItem('aurum_analysis', JSON.stringify({ unrelated: true }));
+
+    const { loadState } = await loadModule();
+    const { state, warnings } = await loadState();
+
+    expect(state.analyses).toEqual([]);
+    expect(warnings).toHaveLength(1);
+    expect((await readQuarantine()).map(q => q.store)).toEqual(['aurum_analysis']);
+    expect(localStorage.getItem('aurum_analysis')).toBeNull();
+  });
+
+  it('runs only once', async () => {
+    localStorage.setItem('aurum_assets', JSON.stringify([asset('a', 100)]));
+    await (await loadModule()).loadState();
+
+    localStorage.setItem('aurum_assets', JSON.stringify([asset('b', 1)]));
+    vi.resetModules();
+    const { state } = await (await loadModule()).loadState();
+
+    expect(state.assets.map(a => a.id)).toEqual(['a']);
+    expect(localStorage.getItem('aurum_assets')).not.toBeNull();
+  });
+});
+
+describe('saveState', () => {
+  const withAssets = (base: BackupData, assets: Asset[]): BackupData => ({ ...base, assets });
+
+  // What the app holds after loading: stored values over the defaults
+  const savedState = async (): Promise<BackupData> => {
+    const { loadState } = await loadModule();
+    const { parseBackup } = await import('./backupService');
+    const defaults = parseBackup(JSON.stringify({ format: 'aurum-backup', data: {} })).backup.data;
+    const { state } = await loadState();
+    return { ...defaults, ...state };
+  };
+
+  it('leaves the newest state on disk when saves overlap', async () => {
+    const base = await savedState();
+    const { saveState } = await import('./storageService');
+
+    const saves = [1, 2, 3].map(n => saveState(withAssets(base, [asset('a', n)])));
+    await Promise.all(saves);
+
+    vi.resetModules();
+    const { state } = await (await loadModule()).loadState();
+    expect(state.assets).toEqual([asset('a', 3)]);
+  });
+
+  it('round-trips records and settings', async () => {
+    const base = await savedState();
+    const { saveState } = await import('./storageService');
+    await saveState({ ...base, assets: [asset('a', 1)], history: [point('2024-01-01', 1)], fx: { baseCurrency: 'HKD', rates: { HKD: 1 } } });
+
+    vi.resetModules();
+    const { state } = await (await loadModule()).loadState();
+    expect(state.assets).toEqual([asset('a', 1)]);
+    expect(state.history).toEqual([point('2024-01-01', 1)]);
+    expect(state.fx).toEqual({ baseCurrency: 'HKD', rates: { HKD: 1 } });
+  });
+});
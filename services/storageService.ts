@@ -0,0 +1,595 @@
+import { AnalysisRecord, Asset, BackupData, HistoryPoint, Screenshot } from "../types";
+import { DEFAULT_FX_SETTINGS } from "./fxService";
+import { carryOverSingleReport, isStructuredAnalysis, upgradeAnalysis, upgradeReport } from "./analysisService";
+import { EncryptedPayload, PBKDF2_ITERATIONS, createSalt, decryptBytes, decryptJson, deriveKey, encryptBytes, encryptJson } from "./cryptoService";
+
+// All data lives in one IndexedDB database. Holdings, snapshots, reports and
+// screenshots each get an object store; everything else is a small value in
+// the settings store, keyed by name. With a passphrase set, every record and
+// setting is sealed with AES-GCM; only record keys (ids and snapshot dates)
+// stay readable, so records can still be read, replaced and deleted by key.
+// Nothing else is readable on disk, so stores have no secondary indexes.
+
+const DB_NAME = 'aurum';
+
+type RecordStore = 'assets' | 'snapshots' | 'reports' | 'screenshots';
+type SettingKey = 'fx' | 'aliases' | 'portfolios' | 'preprocess' | 'provider' | 'transactions' | 'targets' | 'chats' | 'risk' | 'scenarios' | 'goals' | 'planning' | 'priceFeed' | 'alertRules' | 'alerts';
+
+// Each step upgrades the database from version n - 1 to n. Bump DB_VERSION
+// and add a step; never edit a step that has shipped.
+const SCHEMA_MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore('assets', { keyPath: 'id' });
+    db.createObjectStore('snapshots', { keyPath: 'date' });
+    db.createObjectStore('reports', { keyPath: 'id' });
+    db.createObjectStore('screenshots', { keyPath: 'id' });
+    db.createObjectStore('settings');
+    // Records that failed validation on load, kept for inspection rather than deleted
+    db.createObjectStore('quarantine', { autoIncrement: true });
+  }
+};
+
+const DB_VERSION = Math.max(...Object.keys(SCHEMA_MIGRATIONS).map(Number));
+
+const KeyFieldMap: Record<RecordStore, string> = {
+  assets: 'id',
+  snapshots: 'date',
+  reports: 'id',
+  screenshots: 'id'
+};
+
+const StoreLabelMap: Record<RecordStore, string> = {
+  assets: '持仓',
+  snapshots: '快照',
+  reports: '分析报告',
+  screenshots: '截图'
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          SCHEMA_MIGRATIONS[version](request.result, tx);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('数据库被其他标签页占用，请关闭其他标签页后刷新。'));
+    });
+    // A failed open may succeed on a later attempt
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Validation ---
+// Just enough to keep a damaged record from crashing the app. Backups are
+// checked with the same guards before they are restored.
+
+export const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object';
+
+export const isAsset = (value: unknown): value is Asset =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && isFinite(value.amount);
+
+export const isSnapshot = (value: unknown): value is HistoryPoint =>
+  isObject(value) && typeof value.date === 'string' && isFinite(value.totalNetWorth);
+
+export const isReport = (value: unknown): value is AnalysisRecord =>
+  isObject(value) && typeof value.id === 'string' && isStructuredAnalysis(value.analysis);
+
+const isScreenshot = (value: unknown): value is Screenshot =>
+  isObject(value) && typeof value.id === 'string' && value.blob instanceof Blob;
+
+// Settings and most list records are only checked for their outer shape; the
+// predicates claim the full type so a value that passes can be used as one
+export const isShaped = <T>(value: unknown): value is T => isObject(value);
+
+const isRecordList = <T>(value: unknown): value is T[] => Array.isArray(value) && value.every(item => isObject(item));
+
+const SETTING_GUARDS: { [K in SettingKey]: (value: unknown) => value is BackupData[K] } = {
+  fx: (value): value is BackupData['fx'] => isObject(value) && typeof value.baseCurrency === 'string' && isObject(value.rates),
+  aliases: isRecordList,
+  portfolios: (value): value is BackupData['portfolios'] => isRecordList(value) && value.length > 0,
+  preprocess: isShaped,
+  provider: isShaped,
+  transactions: isRecordList,
+  targets: isShaped,
+  chats: isRecordList,
+  risk: isShaped,
+  scenarios: isRecordList,
+  goals: isRecordList,
+  planning: (value): value is BackupData['planning'] => isObject(value) && isObject(value.assumptions),
+  priceFeed: isShaped,
+  alertRules: isRecordList,
+  alerts: isRecordList
+};
+
+const SETTING_KEYS = Object.keys(SETTING_GUARDS) as SettingKey[];
+
+const quarantine = (db: IDBDatabase, store: string, values: unknown[]) => {
+  if (values.length === 0) return Promise.resolve();
+  const tx = db.transaction('quarantine', 'readwrite');
+  const foundAt = new Date().toISOString();
+  values.forEach(value => tx.objectStore('quarantine').add({ store, value, foundAt }));
+  return completion(tx);
+};
+
+// Keeps records rejected outside a load, e.g. from a restored backup
+export const quarantineRecords = async (store: string, values: unknown[]): Promise<void> =>
+  quarantine(await openDatabase(), store, values);
+
+// --- Sealing ---
+
+// Set while unlocked; null when no passphrase is configured or after locking
+let sealKey: CryptoKey | null = null;
+
+interface SealedRecord {
+  sealed: EncryptedPayload;
+  sealedBlob?: EncryptedPayload & { type: string }; // A screenshot's image, kept as bytes rather than JSON
+}
+
+const isSealed = (value: unknown): value is SealedRecord => isObject(value) && isObject(value.sealed);
+
+// Encryption is async, and IndexedDB commits a transaction as soon as it waits
+// on anything else, so values are sealed before their transaction is opened
+const sealRecord = async (store: RecordStore, value: any): Promise<unknown> => {
+  if (!sealKey) return value;
+  const { blob, ...rest } = value;
+  return {
+    [KeyFieldMap[store]]: value[KeyFieldMap[store]],
+    sealed: await encryptJson(sealKey, rest),
+    sealedBlob: blob instanceof Blob ? { ...await encryptBytes(sealKey, await blob.arrayBuffer()), type: blob.type } : undefined
+  };
+};
+
+// Records written before a passphrase was set are still plain, and are read as they are
+const openRecord = async (value: unknown): Promise<unknown> => {
+  if (!isSealed(value)) return value;
+  if (!sealKey) throw new Error('数据已加密，请先解锁');
+  const rest = await decryptJson<Record<string, unknown>>(sealKey, value.sealed);
+  if (!value.sealedBlob) return rest;
+  return { ...rest, blob: new Blob([await decryptBytes(sealKey, value.sealedBlob)], { type: value.sealedBlob.type }) };
+};
+
+const sealValue = async (value: unknown): Promise<unknown> =>
+  sealKey ? { sealed: await encryptJson(sealKey, value) } : value;
+
+const openValue = async (value: unknown): Promise<unknown> => {
+  if (!isSealed(value)) return value;
+  if (!sealKey) throw new Error('数据已加密，请先解锁');
+  return decryptJson(sealKey, value.sealed);
+};
+
+// A value that fails to decrypt counts as damaged rather than failing the whole load
+const tryOpen = (open: (value: unknown) => Promise<unknown>) => async (value: unknown): Promise<{ ok: boolean; value: unknown }> => {
+  try {
+    return { ok: true, value: await open(value) };
+  } catch {
+    return { ok: false, value };
+  }
+};
+
+// --- Repositories ---
+
+export interface Repository<T> {
+  getAll: () => Promise<T[]>;
+  get: (key: string) => Promise<T | undefined>;
+  put: (item: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  replaceAll: (items: T[]) => Promise<void>;
+}
+
+const createRepository = <T>(store: RecordStore, isValid: (value: unknown) => value is T): Repository<T> => ({
+  // Damaged records are moved aside so the rest still load
+  getAll: async () => {
+    const db = await openDatabase();
+    const stored: unknown[] = await promisify(db.transaction(store).objectStore(store).getAll());
+    const opened = await Promise.all(stored.map(tryOpen(openRecord)));
+    const bad = opened.filter(o => !o.ok || !isValid(o.value)).map(o => o.value);
+    if (bad.length > 0) {
+      await quarantine(db, store, bad);
+      const tx = db.transaction(store, 'readwrite');
+      bad.forEach(value => {
+        const key = isObject(value) ? value[KeyFieldMap[store]] : undefined;
+        if (key !== undefined) tx.objectStore(store).delete(key);
+      });
+      await completion(tx);
+    }
+    return opened.filter(o => o.ok && isValid(o.value)).map(o => o.value as T);
+  },
+  get: async (key) => {
+    const db = await openDatabase();
+    const { ok, value } = await tryOpen(openRecord)(await promisify(db.transaction(store).objectStore(store).get(key)));
+    return ok && isValid(value) ? value : undefined;
+  },
+  put: async (item) => {
+    const db = await openDatabase();
+    const sealed = await sealRecord(store, item);
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(sealed);
+    await completion(tx);
+  },
+  remove: async (key) => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    await completion(tx);
+  },
+  // Clear and rewrite in one transaction, so a failure leaves the old contents
+  replaceAll: async (items) => {
+    const db = await openDatabase();
+    const sealed = await Promise.all(items.map(item => sealRecord(store, item)));
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).clear();
+    sealed.forEach(item => tx.objectStore(store).put(item));
+    await completion(tx);
+  }
+});
+
+export const assetRepository = createRepository<Asset>('assets', isAsset);
+export const snapshotRepository = createRepository<HistoryPoint>('snapshots', isSnapshot);
+export const reportRepository = createRepository<AnalysisRecord>('reports', isReport);
+export const screenshotRepository = createRepository<Screenshot>('screenshots', isScreenshot);
+
+// Screenshots no holding points at any more are kept only up to this many, newest first
+export const UNREFERENCED_SCREENSHOT_LIMIT = 20;
+
+// Deletes archived screenshots that are neither in use nor among the most
+// recent unused ones. Resolves to the number deleted.
+export const pruneScreenshots = async (inUse: Set<string>, limit: number = UNREFERENCED_SCREENSHOT_LIMIT): Promise<number> => {
+  const unused = (await screenshotRepository.getAll())
+    .filter(s => !inUse.has(s.id))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(limit);
+  for (const screenshot of unused) await screenshotRepository.remove(screenshot.id);
+  return unused.length;
+};
+
+// --- One-time move from localStorage ---
+
+const LEGACY_KEYS: Record<string, RecordStore | SettingKey> = {
+  aurum_assets: 'assets',
+  aurum_history: 'snapshots',
+  aurum_analyses: 'reports',
+  aurum_fx: 'fx',
+  aurum_aliases: 'aliases',
+  aurum_portfolios: 'portfolios',
+  aurum_preprocess: 'preprocess',
+  aurum_provider: 'provider',
+  aurum_transactions: 'transactions',
+  aurum_targets: 'targets',
+  aurum_chats: 'chats'
+};
+
+const RECORD_GUARDS: Record<Exclude<RecordStore, 'screenshots'>, (value: unknown) => boolean> = {
+  assets: isAsset,
+  snapshots: isSnapshot,
+  reports: isReport
+};
+
+// Copies whatever parses out of the aurum_* keys, then removes them. A value
+// that doesn't parse is skipped on its own and kept in quarantine.
+const migrateFromLocalStorage = async (db: IDBDatabase, warnings: string[]) => {
+  const done = await promisify(db.transaction('settings').objectStore('settings').get('migratedFromLocalStorage'));
+  if (done) return;
+
+  const bad: { key: string; raw: string }[] = [];
+  const read = (key: string): unknown => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      warnings.push(`旧数据 ${key} 已损坏，已跳过。`);
+      bad.push({ key, raw });
+      return undefined;
+    }
+  };
+
+  const values: Record<string, unknown> = {};
+  Object.entries(LEGACY_KEYS).forEach(([key, target]) => { values[target] = read(key); });
+
+  // Reports from before analyses were structured are converted rather than dropped
+  if (Array.isArray(values.reports)) values.reports = values.reports.map(upgradeReport);
+
+  // The single report saved before report history existed
+  const rawAnalysis = read('aurum_analysis');
+  const legacyAnalysis = upgradeAnalysis(rawAnalysis);
+  if (values.reports === undefined && legacyAnalysis) {
+    const fx = SETTING_GUARDS.fx(values.fx) ? values.fx : DEFAULT_FX_SETTINGS;
+    values.reports = [carryOverSingleReport(legacyAnalysis, fx)];
+  } else if (rawAnalysis !== undefined && !legacyAnalysis) {
+    warnings.push('旧版分析报告无法识别，已跳过。');
+    bad.push({ key: 'aurum_analysis', raw: localStorage.getItem('aurum_analysis')! });
+  }
+
+  const tx = db.transaction(['assets', 'snapshots', 'reports', 'settings', 'quarantine'], 'readwrite');
+  (Object.keys(RECORD_GUARDS) as (keyof typeof RECORD_GUARDS)[]).forEach(store => {
+    const list = values[store];
+    if (list === undefined) return;
+    const items = Array.isArray(list) ? list : [];
+    items.forEach(item => {
+      if (RECORD_GUARDS[store](item)) tx.objectStore(store).put(item);
+      else tx.objectStore('quarantine').add({ store, value: item, foundAt: new Date().toISOString() });
+    });
+    if (!Array.isArray(list) || items.some(item => !RECORD_GUARDS[store](item))) {
+      warnings.push(`旧数据中部分${StoreLabelMap[store]}无法识别，已跳过。`);
+    }
+  });
+  SETTING_KEYS.forEach(key => {
+    if (values[key] !== undefined) tx.objectStore('settings').put(values[key], key);
+  });
+  bad.forEach(entry => tx.objectStore('quarantine').add({ store: entry.key, value: entry.raw, foundAt: new Date().toISOString() }));
+  tx.objectStore('settings').put(new Date().toISOString(), 'migratedFromLocalStorage');
+  await completion(tx);
+
+  // Only now is everything either written or quarantined
+  [...Object.keys(LEGACY_KEYS), 'aurum_analysis'].forEach(key => localStorage.removeItem(key));
+};
+
+// --- Whole-app state ---
+
+export type StoredState = Omit<BackupData, SettingKey> & Partial<Pick<BackupData, SettingKey>>;
+
+type RecordSliceKey = 'assets' | 'history' | 'analyses';
+
+type RecordSlice<K extends RecordSliceKey> = { key: K; store: RecordStore; repository: Repository<BackupData[K][number]> };
+
+const RECORD_SLICES: { [K in RecordSliceKey]: RecordSlice<K> }[RecordSliceKey][] = [
+  { key: 'assets', store: 'assets', repository: assetRepository },
+  { key: 'history', store: 'snapshots', repository: snapshotRepository },
+  { key: 'analyses', store: 'reports', repository: reportRepository }
+];
+
+// Generic so the slice's repository and the state's list are known to match
+const writeSlice = <K extends RecordSliceKey>({ key, repository }: RecordSlice<K>, state: BackupData) =>
+  repository.replaceAll(state[key]);
+
+// Serialized form of what was last written, per slice, so saves skip what hasn't changed
+const lastSaved: Record<string, string> = {};
+
+// Stores that failed to load are never overwritten with the empty list shown instead
+const unreadable = new Set<RecordStore>();
+
+// Loads everything, moving old localStorage data over first. Settings that are
+// missing or damaged come back undefined so callers fall back to defaults.
+export const loadState = async (): Promise<{ state: StoredState; warnings: string[] }> => {
+  const db = await openDatabase();
+  const warnings: string[] = [];
+  await migrateFromLocalStorage(db, warnings);
+
+  // A store that can't be read is left untouched on disk and skipped for this session
+  const readRecords = async <T>(repository: Repository<T>, store: RecordStore): Promise<T[]> => {
+    try {
+      return await repository.getAll();
+    } catch (error) {
+      console.error(error);
+      warnings.push(`${StoreLabelMap[store]}读取失败，本次启动将不显示。`);
+      unreadable.add(store);
+      return [];
+    }
+  };
+
+  const assets = await readRecords(assetRepository, 'assets');
+  const history = await readRecords(snapshotRepository, 'snapshots');
+  const analyses = await readRecords(reportRepository, 'reports');
+  const state: StoredState = { assets, history: [...history].sort((a, b) => a.date.localeCompare(b.date)), analyses };
+
+  const settings = db.transaction('settings').objectStore('settings');
+  const stored = await Promise.all(SETTING_KEYS.map(key => promisify(settings.get(key))));
+  const opened = await Promise.all(stored.map(tryOpen(openValue)));
+  const bad: unknown[] = [];
+  const readSetting = <K extends SettingKey>(key: K, { ok, value }: { ok: boolean; value: unknown }) => {
+    if (value === undefined) return;
+    const guard: (value: unknown) => value is BackupData[K] = SETTING_GUARDS[key];
+    if (ok && guard(value)) {
+      state[key] = value;
+    } else {
+      bad.push({ key, value });
+      warnings.push(`设置 ${key} 已损坏，已恢复默认值。`);
+    }
+  };
+  SETTING_KEYS.forEach((key, i) => readSetting(key, opened[i]));
+  await quarantine(db, 'settings', bad);
+
+  RECORD_SLICES.forEach(({ key }) => { lastSaved[key] = JSON.stringify(state[key]); });
+  SETTING_KEYS.forEach(key => { if (state[key] !== undefined) lastSaved[key] = JSON.stringify(state[key]); });
+  return { state, warnings };
+};
+
+// Saves run one at a time: each spans several transactions, and two in flight
+// could commit out of order or interleave slices from different states
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (write: () => Promise<void>): Promise<void> => {
+  const run = writeQueue.then(write);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+// The newest state handed to saveState; a queued save writes this, not its own argument
+let latestState: BackupData | null = null;
+
+// Writes the slices that changed since the last save
+const writeState = async (state: BackupData): Promise<void> => {
+  const db = await openDatabase();
+  const changed = (key: string, value: unknown) => {
+    const serialized = JSON.stringify(value);
+    if (lastSaved[key] === serialized) return null;
+    return serialized;
+  };
+
+  for (const slice of RECORD_SLICES) {
+    const serialized = changed(slice.key, state[slice.key]);
+    if (serialized === null || unreadable.has(slice.store)) continue;
+    await writeSlice(slice, state);
+    lastSaved[slice.key] = serialized;
+  }
+
+  const updates = SETTING_KEYS
+    .map(key => ({ key, serialized: changed(key, state[key]) }))
+    .filter(u => u.serialized !== null);
+  if (updates.length === 0) return;
+  const sealed = await Promise.all(updates.map(({ key }) => sealValue(state[key])));
+  const tx = db.transaction('settings', 'readwrite');
+  updates.forEach(({ key }, i) => tx.objectStore('settings').put(sealed[i], key));
+  await completion(tx);
+  updates.forEach(({ key, serialized }) => { lastSaved[key] = serialized!; });
+};
+
+// Resolves once this state, or a newer one, is on disk. Saves queued behind a
+// running one collapse into a single write of the latest state.
+export const saveState = (state: BackupData): Promise<void> => {
+  latestState = state;
+  return enqueue(() => writeState(latestState!));
+};
+
+// --- Passphrase ---
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Known plaintext sealed with the key, to tell a wrong passphrase from damaged data
+const ENCRYPTION_CHECK = 'aurum';
+
+// Stored in the clear under the 'encryption' setting; its presence means data is sealed
+interface EncryptionMeta {
+  salt: Uint8Array;
+  iterations: number;
+  check: EncryptedPayload;
+  autoLockMinutes: number; // 0 turns auto-lock off
+}
+
+const readMeta = async (db: IDBDatabase): Promise<EncryptionMeta | undefined> =>
+  promisify(db.transaction('settings').objectStore('settings').get('encryption'));
+
+const writeMeta = async (db: IDBDatabase, meta: EncryptionMeta | undefined) => {
+  const tx = db.transaction('settings', 'readwrite');
+  if (meta) tx.objectStore('settings').put(meta, 'encryption');
+  else tx.objectStore('settings').delete('encryption');
+  await completion(tx);
+};
+
+const keyFor = async (meta: EncryptionMeta, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    return await decryptJson(key, meta.check) === ENCRYPTION_CHECK ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getEncryptionStatus = async (): Promise<{ enabled: boolean; autoLockMinutes: number }> => {
+  const meta = await readMeta(await openDatabase());
+  return { enabled: !!meta, autoLockMinutes: meta?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES };
+};
+
+// Resolves false for a wrong passphrase
+export const unlockStorage = async (passphrase: string): Promise<boolean> => {
+  const meta = await readMeta(await openDatabase());
+  if (!meta) return true;
+  const key = await keyFor(meta, passphrase);
+  if (key) sealKey = key;
+  return !!key;
+};
+
+// Writes everything again under the current key, or in the clear without one.
+// Old-format records stay readable, so an interrupted rewrite loses nothing.
+const rewriteAll = async (db: IDBDatabase, state: BackupData, screenshots: Screenshot[]) => {
+  for (const slice of RECORD_SLICES) {
+    await writeSlice(slice, state);
+    lastSaved[slice.key] = JSON.stringify(state[slice.key]);
+  }
+  await screenshotRepository.replaceAll(screenshots);
+  const sealed = await Promise.all(SETTING_KEYS.map(key => sealValue(state[key])));
+  const tx = db.transaction(['settings', 'quarantine'], 'readwrite');
+  SETTING_KEYS.forEach((key, i) => {
+    tx.objectStore('settings').put(sealed[i], key);
+    lastSaved[key] = JSON.stringify(state[key]);
+  });
+  // Quarantined records are kept as found, i.e. possibly in the clear
+  tx.objectStore('quarantine').clear();
+  await completion(tx);
+};
+
+const assertRewritable = () => {
+  if (unreadable.size > 0) throw new Error('部分数据读取失败，暂时无法更改加密设置。');
+};
+
+export const enableEncryption = async (passphrase: string, state: BackupData, autoLockMinutes: number): Promise<void> => {
+  assertRewritable();
+  const db = await openDatabase();
+  const screenshots = await screenshotRepository.getAll();
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  // Meta goes first: a half-sealed database is readable, a sealed one without meta is not
+  await writeMeta(db, { salt, iterations: PBKDF2_ITERATIONS, check: await encryptJson(key, ENCRYPTION_CHECK), autoLockMinutes });
+  sealKey = key;
+  await enqueue(() => rewriteAll(db, state, screenshots));
+};
+
+// Resolves false for a wrong passphrase, leaving everything sealed
+export const disableEncryption = async (passphrase: string, state: BackupData): Promise<boolean> => {
+  assertRewritable();
+  const db = await openDatabase();
+  const meta = await readMeta(db);
+  if (!meta) return true;
+  if (!await keyFor(meta, passphrase)) return false;
+  const screenshots = await screenshotRepository.getAll();
+  sealKey = null;
+  await enqueue(() => rewriteAll(db, state, screenshots));
+  await writeMeta(db, undefined);
+  return true;
+};
+
+export const setAutoLockMinutes = async (autoLockMinutes: number): Promise<void> => {
+  const db = await openDatabase();
+  const meta = await readMeta(db);
+  if (meta) await writeMeta(db, { ...meta, autoLockMinutes });
+};
+
+// --- Device preferences ---
+// On/off switches that belong to this browser rather than to the data. They
+// are read before unlocking, so they are stored in the clear.
+
+type PreferenceKey = 'privacyMode' | 'browserNotifications';
+
+export const loadPreference = async (key: PreferenceKey): Promise<boolean> =>
+  (await promisify((await openDatabase()).transaction('settings').objectStore('settings').get(key))) === true;
+
+export const savePreference = async (key: PreferenceKey, enabled: boolean): Promise<void> => {
+  const tx = (await openDatabase()).transaction('settings', 'readwrite');
+  tx.objectStore('settings').put(enabled, key);
+  await completion(tx);
+};
+
+// Turns a storage failure into something to show the user
+export const describeStorageError = (error: unknown): string =>
+  error instanceof DOMException && error.name === 'QuotaExceededError'
+    ? '存储空间已满，最近的修改未能保存。可在「持仓与分析」页删除旧的分析报告和对话，或导出备份后删除不再需要的快照。'
+    : `数据保存失败：${error instanceof Error ? error.message : String(error)}`;
@@ -0,0 +1,5 @@
+// Full-width ASCII (ＡＢＣ１２３（）) as typed by Chinese IMEs, to half-width
+export const toHalfWidth = (text: string) =>
+  text
+    .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(/　/g, ' ');
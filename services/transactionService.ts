@@ -0,0 +1,97 @@
+import { ALL_PORTFOLIOS_ID, Asset, FxSettings, Transaction, TransactionType } from "../types";
+import { convertToBase, normalizeCurrency } from "./fxService";
+import { assetPortfolioId } from "./portfolioService";
+
+export const TransactionTypeLabelMap: Record<TransactionType, string> = {
+  buy: '买入',
+  sell: '卖出',
+  dividend: '分红',
+  deposit: '转入',
+  withdrawal: '转出',
+  fee: '费用'
+};
+
+export const createTransaction = (
+  fields: Omit<Transaction, 'id' | 'source'>,
+  source: Transaction['source'] = 'manual'
+): Transaction => ({
+  ...fields,
+  currency: normalizeCurrency(fields.currency),
+  id: crypto.randomUUID(),
+  source
+});
+
+export const validateTransaction = (fields: Omit<Transaction, 'id' | 'source'>): string | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(fields.date)) return '日期无效';
+  if (!isFinite(fields.amount) || fields.amount <= 0) return '金额必须大于 0';
+  if ((fields.type === 'buy' || fields.type === 'sell') && !fields.assetId) return '买入/卖出需要选择资产';
+  return null;
+};
+
+// Money the investor puts into the tracked holdings (positive) or takes out of
+// them (negative), in the base currency. Buys and deposits bring money in;
+// sells, withdrawals and dividends paid out take it out. A fee charged on top
+// of the holdings is money put in that earns nothing.
+export const transactionFlow = (transaction: Transaction, fx: FxSettings): number => {
+  const amount = convertToBase(transaction.amount, transaction.currency, fx);
+  switch (transaction.type) {
+    case 'buy':
+    case 'deposit':
+    case 'fee':
+      return amount;
+    case 'sell':
+    case 'withdrawal':
+    case 'dividend':
+    default:
+      return -amount;
+  }
+};
+
+// Entries for one portfolio (or all of them), optionally narrowed to one asset
+export const filterTransactions = (transactions: Transaction[], portfolioId: string, assetId?: string): Transaction[] =>
+  transactions.filter(t =>
+    (portfolioId === ALL_PORTFOLIOS_ID || t.portfolioId === portfolioId) &&
+    (!assetId || t.assetId === assetId)
+  );
+
+// Newest first, the order the ledger is read in
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort((a, b) => b.date.localeCompare(a.date));
+
+// Derives buys and sells from a portfolio's holdings before and after a
+// screenshot import: holdings that appeared were bought, and a changed quantity
+// was bought or sold at the current price. The first import into an empty
+// portfolio records opening positions, not purchases, so nothing is inferred.
+// Anything the user already entered for the same asset, day and type wins.
+export const inferTransactions = (
+  before: Asset[],
+  after: Asset[],
+  portfolioId: string,
+  date: string,
+  existing: Transaction[]
+): Transaction[] => {
+  const previous = before.filter(a => assetPortfolioId(a) === portfolioId);
+  if (previous.length === 0) return [];
+
+  const inferred: Transaction[] = [];
+  const record = (asset: Asset, type: TransactionType, amount: number, quantity?: number) => {
+    if (!(amount > 0)) return;
+    if (existing.some(t => t.assetId === asset.id && t.date === date && t.type === type)) return;
+    inferred.push(createTransaction({ date, type, amount, currency: asset.currency, portfolioId, assetId: asset.id, quantity }, 'inferred'));
+  };
+
+  after.filter(a => assetPortfolioId(a) === portfolioId).forEach(asset => {
+    const prior = previous.find(a => a.id === asset.id);
+    if (!prior) {
+      record(asset, 'buy', asset.amount, asset.quantity);
+      return;
+    }
+    if (asset.quantity === undefined || prior.quantity === undefined || asset.quantity === prior.quantity) return;
+    const unitPrice = asset.price ?? (asset.quantity > 0 ? asset.amount / asset.quantity : prior.price);
+    if (unitPrice === undefined) return;
+    const delta = asset.quantity - prior.quantity;
+    record(asset, delta > 0 ? 'buy' : 'sell', Math.abs(delta) * unitPrice, Math.abs(delta));
+  });
+
+  return inferred;
+};
@@ -0,0 +1,313 @@
+import {
+  AnalysisResponse,
+  AnalysisSuggestion,
+  Asset,
+  AssetCategory,
+  CategoryDiversification,
+  ConcentrationWarning,
+  DiversificationRating,
+  ExtractedHolding,
+  SourceRegion,
+  SuggestionAction,
+  SuggestionPriority,
+  ValidationWarning
+} from "../types";
+import { normalizeCurrency } from "./fxService";
+import { normalizeAssetName } from "./assetMatcher";
+import { toHalfWidth } from "./textUtils";
+
+// Outcome of validating one model response. `errors` are problems worth asking
+// the model to fix; `warnings` are kept with the data for the user to review.
+export interface Validated<T> {
+  value: T;
+  errors: string[];
+  warnings: ValidationWarning[];
+}
+
+const UnitMultiplier: Record<string, number> = {
+  '千': 1e3,
+  '万': 1e4,
+  '萬': 1e4,
+  '亿': 1e8,
+  '億': 1e8
+};
+
+// Chinese category names the model sometimes returns instead of the enum
+const CategoryAliasMap: Record<string, AssetCategory> = {
+  '股票': AssetCategory.STOCK,
+  '基金': AssetCategory.FUND,
+  '债券': AssetCategory.BOND,
+  '数字货币': AssetCategory.CRYPTO,
+  '加密货币': AssetCategory.CRYPTO,
+  '现金': AssetCategory.CASH,
+  '货币基金': AssetCategory.CASH,
+  '其他': AssetCategory.OTHER
+};
+
+// Amounts above this are almost certainly a misread unit or merged digits
+const MAX_PLAUSIBLE_AMOUNT = 1e10;
+const MAX_PLAUSIBLE_RETURN_RATE = 1000;
+// Allowed gap between quantity × price and amount before the row is flagged
+const VALUE_MISMATCH_TOLERANCE = 0.05;
+
+// Parses numbers as they appear in Chinese broker apps: "12,345.67", "1.2万",
+// "3亿", "+5.5%", "－１２３" (full-width), "¥8,000". Returns null when the text
+// is not a number at all (e.g. "--").
+export const parseChineseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = toHalfWidth(value)
+    .replace(/[\s,，]/g, '')
+    .replace(/[−—–]/g, '-')
+    .replace(/^(HK\$|US\$|[¥￥$€£])/, '')
+    .replace(/(元|CNY|RMB|USD|HKD)$/i, '')
+    .replace(/%$/, '');
+
+  let multiplier = 1;
+  const unit = text.slice(-1);
+  if (UnitMultiplier[unit]) {
+    multiplier = UnitMultiplier[unit];
+    text = text.slice(0, -1);
+  }
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  return Number(text) * multiplier;
+};
+
+const parseCategory = (value: unknown): { category: AssetCategory; known: boolean } => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if ((Object.values(AssetCategory) as string[]).includes(text)) return { category: text as AssetCategory, known: true };
+  const alias = CategoryAliasMap[text];
+  return alias ? { category: alias, known: true } : { category: AssetCategory.OTHER, known: false };
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Position fields are optional: absent stays undefined, unreadable is reported and dropped
+const optionalNumber = (item: any, field: string, label: string, warnings: ValidationWarning[]): number | undefined => {
+  const value = item[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = parseChineseNumber(value);
+  if (parsed === null) warnings.push({ field, message: `${label}无法识别 (${value})，已忽略` });
+  return parsed ?? undefined;
+};
+
+// The row's bounding box as [ymin, xmin, ymax, xmax] on a 0-1000 scale. It is
+// only a convenience for finding the row later, so anything malformed is dropped.
+const parseBox = (value: unknown): SourceRegion | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  const [top, left, bottom, right] = value.map(parseChineseNumber);
+  if (top === null || left === null || bottom === null || right === null) return undefined;
+  if (Math.min(top, left) < 0 || Math.max(bottom, right) > 1000 || top >= bottom || left >= right) return undefined;
+  return { top: top / 1000, left: left / 1000, bottom: bottom / 1000, right: right / 1000 };
+};
+
+// Accepts a bare list or a {"holdings": [...]} wrapper, since JSON-mode chat
+// APIs must return an object
+export const validateExtractedHoldings = (text: string): Validated<ExtractedHolding[]> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: [], errors: ['返回内容不是合法的 JSON'], warnings: [] };
+  }
+
+  const items = Array.isArray(raw) ? raw : Array.isArray(raw?.holdings) ? raw.holdings : null;
+  if (!items) return { value: [], errors: ['返回内容应为持仓列表 (JSON 数组)'], warnings: [] };
+
+  const errors: string[] = [];
+  const holdings: ExtractedHolding[] = [];
+
+  items.forEach((item: any, index: number) => {
+    const label = `第 ${index + 1} 行`;
+    const name = optionalString(item?.name);
+    if (!name) {
+      errors.push(`${label}缺少 name`);
+      return;
+    }
+    const amount = parseChineseNumber(item.amount);
+    if (amount === null) {
+      errors.push(`${label} (${name}) 的 amount 无法解析为数字: ${JSON.stringify(item.amount)}`);
+      return;
+    }
+
+    const warnings: ValidationWarning[] = [];
+    if (amount < 0) warnings.push({ field: 'amount', message: '金额为负数' });
+    if (amount > MAX_PLAUSIBLE_AMOUNT) warnings.push({ field: 'amount', message: '金额异常大，请核对单位' });
+
+    let returnRate = 0;
+    if (item.returnRate !== undefined && item.returnRate !== null && item.returnRate !== '') {
+      const parsed = parseChineseNumber(item.returnRate);
+      if (parsed === null) {
+        warnings.push({ field: 'returnRate', message: `收益率无法识别 (${item.returnRate})，已按 0 处理` });
+      } else {
+        returnRate = parsed;
+        if (parsed < -100) warnings.push({ field: 'returnRate', message: '收益率低于 -100%，不可能出现' });
+        if (parsed > MAX_PLAUSIBLE_RETURN_RATE) warnings.push({ field: 'returnRate', message: '收益率异常高，请核对' });
+      }
+    }
+
+    const { category, known } = parseCategory(item.category);
+    if (!known) warnings.push({ field: 'category', message: `未知类别 (${item.category ?? '空'})，已归为其他` });
+
+    const currency = normalizeCurrency(optionalString(item.currency));
+    if (!/^[A-Z]{3}$/.test(currency)) warnings.push({ field: 'currency', message: `无法识别的货币 (${currency})` });
+
+    const quantity = optionalNumber(item, 'quantity', '持仓数量', warnings);
+    const price = optionalNumber(item, 'price', '现价', warnings);
+    const costPrice = optionalNumber(item, 'costPrice', '成本价', warnings);
+    const profit = optionalNumber(item, 'profit', '持有收益', warnings);
+    const dailyChange = optionalNumber(item, 'dailyChange', '当日盈亏', warnings);
+    // Apps show cost as a total, a unit price or only as the gain so far
+    let costBasis = optionalNumber(item, 'costBasis', '持仓成本', warnings);
+    if (costBasis === undefined && quantity !== undefined && costPrice !== undefined) costBasis = quantity * costPrice;
+    if (costBasis === undefined && profit !== undefined) costBasis = amount - profit;
+    if (costBasis !== undefined && costBasis < 0) {
+      warnings.push({ field: 'costBasis', message: '持仓成本为负数，已忽略' });
+      costBasis = undefined;
+    }
+    if (quantity !== undefined && price !== undefined && amount > 0
+      && Math.abs(quantity * price - amount) / amount > VALUE_MISMATCH_TOLERANCE) {
+      warnings.push({ field: 'amount', message: '数量 × 现价与金额不一致，请核对' });
+    }
+
+    holdings.push({
+      name,
+      category,
+      amount,
+      returnRate,
+      currency,
+      code: optionalString(item.code),
+      exchange: optionalString(item.exchange),
+      broker: optionalString(item.broker),
+      account: optionalString(item.account),
+      quantity,
+      costBasis,
+      price,
+      dailyChange,
+      lastUpdated: new Date().toISOString(),
+      region: parseBox(item.box),
+      warnings: warnings.length > 0 ? warnings : undefined
+    });
+  });
+
+  return { value: holdings, errors, warnings: [] };
+};
+
+const SuggestionActionAliasMap: Record<string, SuggestionAction> = {
+  buy: 'buy', '买入': 'buy', '增持': 'buy', '加仓': 'buy',
+  sell: 'sell', '卖出': 'sell', '减持': 'sell', '减仓': 'sell',
+  hold: 'hold', '持有': 'hold', '保持': 'hold',
+  rebalance: 'rebalance', '再平衡': 'rebalance', '调仓': 'rebalance',
+  review: 'review', '关注': 'review', '复核': 'review'
+};
+
+const PriorityAliasMap: Record<string, SuggestionPriority> = {
+  high: 'high', '高': 'high',
+  medium: 'medium', '中': 'medium',
+  low: 'low', '低': 'low'
+};
+
+const RatingAliasMap: Record<string, DiversificationRating> = {
+  good: 'good', '良好': 'good', '好': 'good',
+  fair: 'fair', '一般': 'fair', '中等': 'fair',
+  poor: 'poor', '较差': 'poor', '差': 'poor'
+};
+
+const lookup = <T>(map: Record<string, T>, value: unknown): T | undefined =>
+  typeof value === 'string' ? map[value.trim().toLowerCase()] ?? map[value.trim()] : undefined;
+
+// Resolves a holding named by the model to one of `assets`, ignoring brackets, spacing and case
+const findAssetByName = (assets: Asset[], name?: string): Asset | undefined => {
+  if (!name) return undefined;
+  const normalized = normalizeAssetName(name);
+  return assets.find(a => a.name === name || normalizeAssetName(a.name) === normalized);
+};
+
+// `assets` are the holdings that were analyzed, so suggestions can be linked
+// back to them and warnings about unknown names can be raised
+export const validateAnalysis = (text: string, assets: Asset[] = []): Validated<AnalysisResponse | null> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { value: null, errors: ['返回内容不是合法的 JSON'], warnings: [] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value: null, errors: ['返回内容应为 JSON 对象'], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  const riskScore = parseChineseNumber(raw.riskScore);
+  if (riskScore === null || riskScore < 1 || riskScore > 10) errors.push('riskScore 应为 1-10 之间的数字');
+
+  const summary = optionalString(raw.summary);
+  if (!summary) errors.push('缺少字段 summary 或内容为空');
+
+  if (!Array.isArray(raw.suggestions)) errors.push('suggestions 应为数组');
+  const suggestions: AnalysisSuggestion[] = [];
+  (Array.isArray(raw.suggestions) ? raw.suggestions : []).forEach((item: any, index: number) => {
+    const rationale = optionalString(item?.rationale);
+    if (!rationale) {
+      errors.push(`suggestions 第 ${index + 1} 项缺少 rationale`);
+      return;
+    }
+    let action = lookup(SuggestionActionAliasMap, item.action);
+    if (!action) {
+      warnings.push({ field: 'suggestions', message: `未知操作类型 (${item.action ?? '空'})，已按“关注”处理` });
+      action = 'review';
+    }
+    const asset = optionalString(item.asset);
+    suggestions.push({
+      id: crypto.randomUUID(),
+      asset,
+      assetId: findAssetByName(assets, asset)?.id,
+      action,
+      rationale,
+      priority: lookup(PriorityAliasMap, item.priority) || 'medium',
+      status: 'open'
+    });
+  });
+
+  const concentrationWarnings: ConcentrationWarning[] = [];
+  (Array.isArray(raw.concentrationWarnings) ? raw.concentrationWarnings : []).forEach((item: any) => {
+    const message = optionalString(item?.message);
+    if (!message) return;
+    const holdings: string[] = Array.isArray(item.holdings)
+      ? item.holdings.map(optionalString).filter((h: string | undefined): h is string => !!h)
+      : [];
+    const unknown = assets.length > 0 ? holdings.filter(h => !findAssetByName(assets, h)) : [];
+    if (unknown.length > 0) warnings.push({ field: 'concentrationWarnings', message: `集中度提示中的持仓不存在：${unknown.join('、')}` });
+    concentrationWarnings.push({ holdings, message });
+  });
+
+  const diversification: CategoryDiversification[] = [];
+  (Array.isArray(raw.diversification) ? raw.diversification : []).forEach((item: any) => {
+    const { category, known } = parseCategory(item?.category);
+    const rating = lookup(RatingAliasMap, item?.rating);
+    if (!known || !rating) {
+      warnings.push({ field: 'diversification', message: `无法识别的分散度评级 (${item?.category ?? '空'}: ${item?.rating ?? '空'})，已忽略` });
+      return;
+    }
+    diversification.push({ category, rating, comment: optionalString(item.comment) || '' });
+  });
+
+  return {
+    value: {
+      riskScore: riskScore === null ? 0 : Math.min(10, Math.max(1, Math.round(riskScore))),
+      summary: summary || '',
+      concentrationWarnings,
+      suggestions,
+      diversification
+    },
+    errors,
+    warnings
+  };
+};
+
+export const buildRepairFeedback = (errors: string[]): string =>
+  `\n\n上一次返回的结果存在以下问题，请修正后重新返回完整结果：\n${errors.map(e => `- ${e}`).join('\n')}`;
@@ -15,18 +15,563 @@ export interface Asset {
   returnRate: number; // Percentage, e.g., 5.5 for 5.5%
   currency: string;
   lastUpdated: string; // ISO Date
+  code?: string; // Ticker or fund code, e.g. 600519
+  exchange?: string; // e.g. SH, SZ, HK, NASDAQ
+  broker?: string; // Broker or platform, e.g. 招商证券, 支付宝
+  account?: string; // Account identifier within the broker
+  portfolioId?: string; // Missing means DEFAULT_PORTFOLIO_ID
+  quantity?: number; // Shares or fund units held
+  costBasis?: number; // Total cost of the position, in `currency`
+  price?: number; // Latest price per unit, in `currency`
+  dailyChange?: number; // Today's gain or loss as shown by the app, in `currency`
+  source?: AssetSource; // Screenshot the current values were imported from
+  valuation?: AssetValuation; // Unset for values entered by hand
 }
 
-export interface HistoryPoint {
-  date: string;
+// Where an asset's current amount came from
+export interface AssetValuation {
+  kind: 'screenshot' | 'market'; // Read off a screenshot, or quantity × an imported price
+  source?: string; // Quote source for market values, e.g. a CSV file name or the quote server's host
+  priceDate?: string; // YYYY-MM-DD of the price used
+}
+
+// Fractions (0-1) of an image's height and width
+export interface SourceRegion {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface AssetSource {
+  screenshotId: string;
+  region?: SourceRegion; // The holding's row in the screenshot, when the model reported it
+}
+
+// Holdings as they were before a destructive edit, so it can be undone
+export interface UndoEntry {
+  label: string;
+  assets: Asset[];
+}
+
+export const DEFAULT_PORTFOLIO_ID = 'default';
+export const ALL_PORTFOLIOS_ID = 'all'; // Consolidated view across every portfolio
+
+// A named account grouping, e.g. "招商证券-本人" or "支付宝基金-配偶"
+export interface Portfolio {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Totals for one portfolio within a HistoryPoint, in the point's currency
+export interface PortfolioSnapshot {
   totalNetWorth: number;
   totalReturnRate: number;
+  categoryValues: Record<string, number>;
+  categoryReturnRates: Record<string, number>;
+}
+
+export interface HistoryPoint {
+  date: string; // YYYY-MM-DD, local time
+  totalNetWorth: number; // In `currency`
+  totalReturnRate: number;
+  currency?: string; // Base currency the snapshot was valued in
+  assetValues?: Record<string, number>; // Asset id -> value in `currency`
+  categoryValues?: Record<string, number>; // AssetCategory -> value in `currency`
+  categoryReturnRates?: Record<string, number>; // AssetCategory -> weighted return rate
+  portfolios?: Record<string, PortfolioSnapshot>; // Portfolio id -> totals
+  source?: 'auto' | 'manual' | 'market'; // Written by the snapshot engine, entered by the user, or revalued from imported prices
+}
+
+export interface FxSettings {
+  baseCurrency: string;
+  rates: Record<string, number>; // Value of 1 unit of each currency in baseCurrency
+}
+
+export type SuggestionAction = 'buy' | 'sell' | 'hold' | 'rebalance' | 'review';
+export type SuggestionPriority = 'high' | 'medium' | 'low';
+export type SuggestionStatus = 'open' | 'done' | 'dismissed';
+
+export interface AnalysisSuggestion {
+  id: string;
+  asset?: string; // Holding or category the suggestion is about, as named by the model
+  assetId?: string; // Resolved when `asset` names a current holding
+  action: SuggestionAction;
+  rationale: string;
+  priority: SuggestionPriority;
+  status: SuggestionStatus;
+}
+
+export interface ConcentrationWarning {
+  holdings: string[]; // Names of the holdings involved
+  message: string;
+}
+
+export type DiversificationRating = 'good' | 'fair' | 'poor';
+
+export interface CategoryDiversification {
+  category: AssetCategory;
+  rating: DiversificationRating;
+  comment: string;
 }
 
 export interface AnalysisResponse {
-  assetAllocationAnalysis: string;
-  investmentAdvice: string;
-  adjustmentSuggestions: string;
+  riskScore: number; // 1 (very conservative) to 10 (very aggressive)
+  summary: string;
+  concentrationWarnings: ConcentrationWarning[];
+  suggestions: AnalysisSuggestion[];
+  diversification: CategoryDiversification[];
+}
+
+export type ViewPage = 'dashboard' | 'holdings' | 'scenarios' | 'goals' | 'settings';
+
+export interface ViewState {
+  page: ViewPage;
+  portfolioId: string; // A Portfolio id or ALL_PORTFOLIOS_ID
+}
+
+
+export type ImportRowStatus = 'new' | 'update' | 'unmatched';
+
+export type AssetDraft = Omit<Asset, 'id' | 'lastUpdated'>;
+
+// One extracted screenshot row awaiting review before it is merged into assets
+export interface ImportRow {
+  key: string;
+  draft: AssetDraft;
+  status: ImportRowStatus;
+  targetAssetId?: string; // Existing asset this row updates
+  suggestedAssetIds: string[]; // Possible matches when the name is not exact
+  matchMethod?: AssetMatchMethod;
+  confidence?: number; // 0-1, for the matched or best suggested asset
+  manuallyMapped?: boolean;
+  warnings?: ValidationWarning[]; // From validating the model output
+  accepted: boolean;
+}
+
+// A screenshot import awaiting review, bound to the portfolio it will be merged into
+export interface PendingImport {
+  portfolioId: string;
+  extracted: ExtractedHolding[];
+  rows: ImportRow[];
+  screenshots: Screenshot[]; // Saved once the import is confirmed
+}
+
+// Base64 image payload sent to the model, with its real MIME type
+export interface ImagePart {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+}
+
+// Fractions (0-1) trimmed from each edge, e.g. top: 0.05 removes a status bar
+export interface CropRect {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface PreprocessSettings {
+  maxWidth: number; // Screenshots wider than this are downscaled, in px
+  tileHeight: number; // Taller images are split into tiles of this height, in px (after scaling)
+  tileOverlap: number; // Rows cut by a tile edge appear whole in the next tile, in px
+  defaultCrop: CropRect;
+  reviewCrop: boolean; // Ask for a crop of each screenshot before extraction
+}
+
+export type ProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  geminiModel: string;
+  openaiBaseUrl: string; // OpenAI-compatible server, e.g. a local model at http://localhost:11434/v1
+  openaiApiKey: string;
+  openaiModel: string;
+}
+
+// A vision/LLM backend able to read holdings screenshots and analyze a portfolio.
+// Both calls return the model's raw JSON text; services/aiProvider validates it
+// and asks again with `feedback` describing what was wrong.
+export interface AiProvider {
+  kind: ProviderKind;
+  model: string;
+  extractHoldings: (image: ImagePart, feedback?: string) => Promise<string>;
+  analyzePortfolio: (assets: Asset[], fx: FxSettings, risk?: RiskMetrics, feedback?: string) => Promise<string>;
+  // Streams the reply to the last message as text chunks
+  chat: (systemPrompt: string, messages: ChatMessage[]) => AsyncGenerator<string>;
+}
+
+export interface ValidationWarning {
+  field?: string;
+  message: string;
+}
+
+// A screenshot row after validation, with anything suspicious about it.
+// `region` is relative to the image the model was given.
+export type ExtractedHolding = Partial<Asset> & { warnings?: ValidationWarning[]; region?: SourceRegion };
+
+export interface ExtractionResult {
+  holdings: ExtractedHolding[];
+  warnings: ValidationWarning[]; // About the response as a whole
+  retried: boolean;
+  raw: string; // The model response the holdings were read from
+}
+
+export interface AnalysisResult {
+  analysis: AnalysisResponse;
+  warnings: ValidationWarning[];
+  retried: boolean;
+}
+
+export type UploadJobStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// One screenshot in a batch upload
+export interface UploadJob {
+  id: string;
+  fileName: string;
+  status: UploadJobStatus;
+  rowCount?: number;
+  tileCount?: number;
+  warnings?: ValidationWarning[];
+  error?: string;
+}
+
+export type AssetMatchMethod = 'code' | 'alias' | 'exact' | 'fuzzy';
+
+export interface AssetMatch {
+  assetId: string;
+  method: AssetMatchMethod;
+  confidence: number;
+}
+
+// A screenshot name the user has confirmed belongs to an existing asset
+export interface AssetAlias {
+  alias: string; // Normalized name
+  assetId: string;
+  createdAt: string;
+}
+
+// Profit and loss of a set of holdings, in the base currency
+export interface PnlSummary {
+  totalValue: number;
+  totalCost: number;
+  unrealizedPnl: number;
+  unrealizedPnlRate: number; // Percentage of totalCost
+  todayPnl: number | null; // Null when there is nothing to compare against
+  todayPnlRate: number;
+  previousDate?: string; // Snapshot todayPnl was measured from
+}
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'deposit' | 'withdrawal' | 'fee';
+
+// A ledger entry. Entries without an assetId move cash into or out of the
+// portfolio as a whole.
+export interface Transaction {
+  id: string;
+  date: string; // YYYY-MM-DD, local time
+  type: TransactionType;
+  amount: number; // Always positive, in `currency`; the type gives the direction
+  currency: string;
+  portfolioId: string;
+  assetId?: string;
+  quantity?: number; // Units bought or sold
+  note?: string;
+  source: 'manual' | 'inferred'; // Entered by the user or derived from successive screenshots
+}
+
+export type ReturnPeriod = '1M' | '3M' | '6M' | 'YTD' | '1Y' | 'ALL';
+
+export interface PerformancePoint {
+  date: string;
+  netWorth: number; // In the base currency
+  twr: number; // Cumulative time-weighted return since the period start, percentage
+}
+
+export interface PerformanceSummary {
+  series: PerformancePoint[];
+  twr: number | null; // Percentage over the whole period
+  xirr: number | null; // Annualized money-weighted return, percentage
+  netFlow: number; // Money put in minus money taken out during the period, in the base currency
+}
+
+export interface RiskSettings {
+  riskFreeRate: number; // Annual percentage, e.g. a deposit or treasury yield
+  topN: number; // Holdings counted in the top-N concentration weight
+}
+
+export interface DrawdownPoint {
+  date: string;
+  drawdown: number; // Percentage below the running peak, zero or negative
+}
+
+export interface MaxDrawdown {
+  depth: number; // Percentage, negative
+  peakDate: string;
+  troughDate: string;
+  recoveryDate?: string; // First date back at the peak; unset while still under water
+}
+
+export interface Concentration {
+  top: { name: string; weight: number }[]; // The largest slices, weights in percent
+  topWeight: number; // Combined weight of `top`, percentage
+  hhi: number; // Herfindahl–Hirschman index on the 0–10000 scale
+}
+
+// Risk figures for a period. Returns are time-weighted, so deposits and
+// withdrawals neither create nor hide a drawdown.
+export interface RiskMetrics {
+  annualizedReturn: number | null; // Percentage
+  volatility: number | null; // Annualized standard deviation of returns, percentage
+  sharpe: number | null;
+  maxDrawdown: MaxDrawdown | null;
+  drawdowns: DrawdownPoint[];
+  byAsset: Concentration;
+  byCategory: Concentration;
+}
+
+// One hypothetical move. Money leaves `from` and lands in a simulated holding
+// of category `to`; without `from` it is new money.
+export interface ScenarioTrade {
+  id: string;
+  from?: string; // Asset id
+  share?: number; // Percentage of the source holding to move
+  amount?: number; // Or a fixed amount, in the base currency
+  to: AssetCategory;
+}
+
+// Trades and shocks are stored rather than their outcome, so a saved scenario
+// replays against whatever the holdings are today
+export interface Scenario {
+  id: string;
+  portfolioId: string; // Portfolio id or ALL_PORTFOLIOS_ID
+  name: string;
+  createdAt: string;
+  trades: ScenarioTrade[];
+  shocks: Partial<Record<AssetCategory, number>>; // Price change per category after the trades, percentage
+}
+
+// One closing price or fund NAV
+export interface PriceQuote {
+  code: string; // Matched against Asset.code, optionally suffixed with the exchange, e.g. 600519.SH
+  date: string; // YYYY-MM-DD
+  price: number;
+  currency?: string; // Quotes in another currency than the holding are ignored
+}
+
+export interface PriceFeedSettings {
+  quoteUrl: string; // HTTP quote source; empty when only CSV files are used
+}
+
+export type AlertRuleKind = 'returnRate' | 'categoryWeight' | 'drawdown' | 'stale';
+
+// A condition checked after every upload and revaluation. Each subject (an
+// asset, a category, the portfolio) fires once when it starts breaching and
+// again only after it has recovered.
+export interface AlertRule {
+  id: string;
+  kind: AlertRuleKind;
+  portfolioId: string; // Portfolio id or ALL_PORTFOLIOS_ID
+  enabled: boolean;
+  assetId?: string; // returnRate: one holding; unset watches every holding
+  direction?: 'above' | 'below'; // returnRate
+  category?: AssetCategory; // categoryWeight
+  threshold: number; // returnRate: percentage; drawdown: percentage below the peak; stale: days
+  min?: number; // categoryWeight: allowed range, percentage of the portfolio
+  max?: number;
+  active: string[]; // Subjects breaching as of the last evaluation
+  createdAt: string;
+}
+
+export type AlertTrigger = 'upload' | 'revaluation';
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  subject: string; // Asset id, category or portfolio id the alert is about
+  message: string;
+  trigger: AlertTrigger;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface Goal {
+  id: string;
+  portfolioId: string; // Portfolio id or ALL_PORTFOLIOS_ID; the goal is funded by that view's holdings
+  name: string;
+  targetAmount: number; // In the base currency
+  targetDate: string; // YYYY-MM-DD
+  monthlyContribution: number; // In the base currency, spread across categories by current weight
+  createdAt: string;
+}
+
+export interface CategoryAssumption {
+  expectedReturn: number; // Annual, percentage
+  volatility: number; // Annual standard deviation, percentage
+}
+
+export interface PlanningSettings {
+  assumptions: Record<AssetCategory, CategoryAssumption>;
+  simulations: number;
+  seed: number; // The same seed and inputs always give the same projection
+}
+
+// Portfolio value percentiles across simulated paths at one month
+export interface ProjectionPoint {
+  date: string;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface GoalProjection {
+  probability: number; // Share of paths at or above the target on the target date, percentage
+  points: ProjectionPoint[];
+}
+
+// Desired share of a portfolio. An asset with its own target is carved out of
+// its category, so the category target covers the category's other holdings.
+export interface AllocationTarget {
+  scope: 'category' | 'asset';
+  key: string; // AssetCategory or asset id, depending on scope
+  weight: number; // Percentage of the portfolio
+  band: number; // Tolerated drift either side, in percentage points
+}
+
+export interface AllocationDrift extends AllocationTarget {
+  value: number; // Current value in the base currency
+  currentWeight: number; // Percentage
+  drift: number; // currentWeight - weight, in percentage points
+  breached: boolean; // Drift outside the band
+}
+
+export interface RebalanceTrade {
+  scope: AllocationTarget['scope'];
+  key: string;
+  currentValue: number;
+  targetValue: number;
+  amount: number; // Positive to buy, negative to sell, in the base currency
+}
+
+export interface RebalancePlan {
+  trades: RebalanceTrade[];
+  newCash: number; // In the base currency
+  cashOnly: boolean; // Only new cash is invested; nothing is sold
+}
+
+// One analysis run, kept so later runs can be compared with it
+export interface AnalysisRecord {
+  id: string;
+  createdAt: string; // ISO
+  portfolioId: string; // A Portfolio id or ALL_PORTFOLIOS_ID
+  provider?: ProviderKind; // Missing for the report carried over from the single-report store
+  model?: string;
+  holdings: Asset[]; // The holdings as they were analyzed
+  snapshot: HistoryPoint; // Their valuation at the time, in snapshot.currency
+  analysis: AnalysisResponse;
+  warnings?: ValidationWarning[];
+}
+
+export type SuggestionFollowUp = 'followed' | 'not-followed' | 'unknown';
+
+export interface HoldingChange {
+  assetId: string;
+  name: string;
+  before?: number; // Value in the older report's snapshot; missing if newly held
+  after?: number; // Value in the newer report's snapshot; missing if no longer held
+  beforeWeight: number; // Percentage
+  afterWeight: number;
+}
+
+export interface AnalysisDiff {
+  riskScoreChange: number;
+  totalValueChange: number; // In the newer snapshot's currency
+  holdings: HoldingChange[];
+  followUps: { suggestion: AnalysisSuggestion; followUp: SuggestionFollowUp }[]; // The older report's suggestions
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO
+  failed?: boolean; // The reply errored; not sent back to the model
+}
+
+// A conversation about one portfolio view
+export interface ChatThread {
+  id: string;
+  portfolioId: string; // A Portfolio id or ALL_PORTFOLIOS_ID
+  title: string; // The first question, shortened
+  createdAt: string;
+  messages: ChatMessage[];
+}
+
+// Everything the app keeps. Backups blank the API key.
+export interface BackupData {
+  assets: Asset[];
+  history: HistoryPoint[];
+  analyses: AnalysisRecord[];
+  transactions: Transaction[];
+  portfolios: Portfolio[];
+  aliases: AssetAlias[];
+  targets: Record<string, AllocationTarget[]>;
+  chats: ChatThread[];
+  fx: FxSettings;
+  preprocess: PreprocessSettings;
+  provider: ProviderConfig;
+  risk: RiskSettings;
+  scenarios: Scenario[];
+  goals: Goal[];
+  planning: PlanningSettings;
+  priceFeed: PriceFeedSettings;
+  alertRules: AlertRule[];
+  alerts: AlertEvent[];
+}
+
+export interface BackupFile {
+  format: 'aurum-backup';
+  version: number; // BACKUP_VERSION when written; older files are migrated on import
+  exportedAt: string; // ISO
+  data: BackupData;
+}
+
+// 'merge' keeps local records the backup does not have; 'replace' discards them
+export type RestoreMode = 'merge' | 'replace';
+
+// What a restore would do to one kind of record
+export interface RestoreCount {
+  added: number;
+  updated: number; // Same id (or date) locally but different content; the backup's copy wins
+  unchanged: number;
+  removed: number; // Only in replace mode
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  fromVersion: number;
+  exportedAt: string;
+  data: BackupData; // The state after applying
+  counts: Record<'assets' | 'history' | 'analyses' | 'transactions' | 'portfolios' | 'aliases' | 'chats' | 'scenarios' | 'goals' | 'alertRules' | 'alerts', RestoreCount>;
+  settingsReplaced: boolean;
+  warnings: string[];
 }
 
-export type ViewState = 'dashboard' | 'holdings';
+// An original screenshot, kept so imported values can be traced back to it
+export interface Screenshot {
+  id: string;
+  createdAt: string; // ISO
+  portfolioId: string;
+  fileName: string;
+  blob: Blob; // Cropped and re-encoded at a lower quality than the tiles sent to the model
+  rawOutput: string[]; // The model's response for each tile, before validation
+}
+
+// Part of a screenshot sent to the model, with where it sits in the (cropped) screenshot
+export interface ScreenshotTile {
+  image: ImagePart;
+  top: number; // Fraction of the screenshot's height
+  height: number;
+}